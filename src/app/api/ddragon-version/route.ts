@@ -0,0 +1,21 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the Data Dragon version helpers
+import {
+  getLatestVersion,
+  getVersionForGameVersion,
+} from "../../utils/dataDragon";
+
+// Main handler for GET requests to this API route
+// Returns the current Data Dragon version, and with ?gameVersion= the version
+// matching the patch a match was played on
+export async function GET(req: NextRequest) {
+  const gameVersion = req.nextUrl.searchParams.get("gameVersion");
+
+  const latest = await getLatestVersion();
+  const patch = gameVersion
+    ? await getVersionForGameVersion(gameVersion)
+    : undefined;
+
+  return NextResponse.json({ latest, patch });
+}
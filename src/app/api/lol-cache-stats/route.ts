@@ -0,0 +1,10 @@
+// Import necessary types from Next.js for handling API responses
+import { NextResponse } from "next/server";
+// Import the shared Riot API cache
+import { getCacheStats } from "../../utils/riotCache";
+
+// Main handler for GET requests to this API route
+// Returns cache hit/miss counters since the server started
+export async function GET() {
+  return NextResponse.json(getCacheStats());
+}
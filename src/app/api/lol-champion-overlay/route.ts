@@ -0,0 +1,135 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import {
+  ChampionMasteryDto,
+  getAccountByRiotId,
+  getChampionMasteries,
+  getMatchIdsByPuuid,
+  getMatches,
+  RiotApiError,
+} from "../../utils/riotApi";
+// Import the overlay shape shared with the champions page
+import type { ChampionOverlayEntry } from "../../utils/championOverlay";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform } from "../../utils/regions";
+
+// Number of recent matches (any queue) used for games played and winrate
+const RECENT_MATCH_COUNT = 20;
+
+// Main handler for POST requests to this API route
+// Returns a player's mastery and recent results for every champion they
+// have played, keyed by champion key, for the champions page overlay
+export async function POST(req: NextRequest) {
+  // Parse the JSON body from the request to get gameName, tagLine and platform
+  const { gameName, tagLine, platform: platformId } = await req.json();
+
+  // Validate that both gameName and tagLine are provided
+  if (!gameName || !tagLine) {
+    return NextResponse.json(
+      { error: "Missing gameName or tagLine" },
+      { status: 400 }
+    );
+  }
+
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Step 1: Get PUUID from Riot ID (gameName + tagLine)
+    let puuid: string;
+    try {
+      const accountData = await getAccountByRiotId(platform, gameName, tagLine);
+      puuid = accountData.puuid;
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      if (err.status === 429) {
+        return rateLimitResponse();
+      }
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // Step 2: Get mastery on every champion
+    let masteryData: ChampionMasteryDto[] = [];
+    try {
+      masteryData = await getChampionMasteries(platform, puuid);
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      // Players without mastery data still get their recent results
+    }
+
+    const champions: { [championKey: string]: ChampionOverlayEntry } = {};
+    const entryFor = (championKey: string) => {
+      if (!champions[championKey]) {
+        champions[championKey] = {
+          championLevel: 0,
+          championPoints: 0,
+          lastPlayTime: null,
+          games: 0,
+          wins: 0,
+          winrate: null,
+        };
+      }
+      return champions[championKey];
+    };
+
+    masteryData.forEach((mastery) => {
+      const entry = entryFor(mastery.championId.toString());
+      entry.championLevel = mastery.championLevel;
+      entry.championPoints = mastery.championPoints;
+      entry.lastPlayTime = mastery.lastPlayTime;
+    });
+
+    // Step 3: Count games and wins per champion in the recent matches
+    let matchesAnalyzed = 0;
+    try {
+      const matchIds = await getMatchIdsByPuuid(platform, puuid, {
+        start: 0,
+        count: RECENT_MATCH_COUNT,
+      });
+      const matches = await getMatches(platform, matchIds);
+      matchesAnalyzed = matches.length;
+
+      matches.forEach((match) => {
+        const participant = match.info.participants.find(
+          (p) => p.puuid === puuid
+        );
+        if (!participant) return;
+
+        const entry = entryFor(participant.championId.toString());
+        entry.games++;
+        if (participant.win) entry.wins++;
+        // Mastery can lag behind - the match end is a last-played date too
+        const playedAt =
+          match.info.gameCreation + match.info.gameDuration * 1000;
+        if (!entry.lastPlayTime || entry.lastPlayTime < playedAt) {
+          entry.lastPlayTime = playedAt;
+        }
+      });
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      // Recent results are optional - the overlay still shows mastery
+    }
+
+    Object.values(champions).forEach((entry) => {
+      if (entry.games > 0) {
+        entry.winrate = ((entry.wins / entry.games) * 100).toFixed(1);
+      }
+    });
+
+    return NextResponse.json({ champions, matchesAnalyzed });
+  } catch (err) {
+    return NextResponse.json(
+      { error: "Internal server error", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import {
+  getAccountByRiotId,
+  getLeagueEntriesBySummonerId,
+  getMatchIdsByPuuid,
+  getMatches,
+  getSummonerByPuuid,
+  RiotApiError,
+} from "../../utils/riotApi";
+// Import rank, role and map helpers
+import { getLadderLp } from "../../utils/ranks";
+import { getRole, ROLES } from "../../utils/roles";
+import { SUMMONERS_RIFT_MAP_ID } from "../../utils/mapEvents";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import shared match stat helpers
+import { isRemake, kdaRatio } from "../../utils/matchStats";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform, Platform } from "../../utils/regions";
+
+// Number of players that can be compared at once
+const MIN_PLAYERS = 2;
+const MAX_PLAYERS = 5;
+
+// Number of recent matches each player's stats are computed from
+const RECENT_MATCH_COUNT = 20;
+
+// Build the comparison row for one player: rank plus stats from their
+// recent Summoner's Rift matches (remakes excluded)
+const getComparison = async (
+  platform: Platform,
+  gameName: string,
+  tagLine: string
+) => {
+  const account = await getAccountByRiotId(platform, gameName, tagLine);
+  const puuid = account.puuid;
+
+  // Solo/duo rank - unranked players and league errors leave it null
+  let rank = null;
+  try {
+    const summoner = await getSummonerByPuuid(platform, puuid);
+    const entries = await getLeagueEntriesBySummonerId(platform, summoner.id);
+    const solo = entries.find((entry) => entry.queueType === "RANKED_SOLO_5x5");
+    if (solo) {
+      rank = {
+        tier: solo.tier,
+        rank: solo.rank,
+        leaguePoints: solo.leaguePoints,
+        ladderLp: getLadderLp(solo.tier, solo.rank, solo.leaguePoints),
+      };
+    }
+  } catch (err) {
+    if (!(err instanceof RiotApiError)) throw err;
+  }
+
+  const matchIds = await getMatchIdsByPuuid(platform, puuid, {
+    start: 0,
+    count: RECENT_MATCH_COUNT,
+  });
+  const matches = (await getMatches(platform, matchIds)).filter(
+    (match) => match.info.mapId === SUMMONERS_RIFT_MAP_ID && !isRemake(match)
+  );
+
+  let wins = 0;
+  let kills = 0;
+  let deaths = 0;
+  let assists = 0;
+  let cs = 0;
+  let visionScore = 0;
+  let minutes = 0;
+  const champions: { [name: string]: { games: number; wins: number } } = {};
+  const roles: { [role: string]: number } = {};
+  ROLES.forEach((role) => (roles[role] = 0));
+
+  matches.forEach((match) => {
+    const p = match.info.participants.find((p) => p.puuid === puuid);
+    if (!p) return;
+
+    if (p.win) wins++;
+    kills += p.kills;
+    deaths += p.deaths;
+    assists += p.assists;
+    cs += p.totalMinionsKilled + p.neutralMinionsKilled;
+    visionScore += p.visionScore;
+    minutes += match.info.gameDuration / 60;
+
+    if (!champions[p.championName]) {
+      champions[p.championName] = { games: 0, wins: 0 };
+    }
+    champions[p.championName].games++;
+    if (p.win) champions[p.championName].wins++;
+
+    const role = getRole(p);
+    if (role in roles) roles[role]++;
+  });
+
+  const games = matches.length;
+  return {
+    gameName: account.gameName || gameName,
+    tagLine: account.tagLine || tagLine,
+    platform: platform.id,
+    rank,
+    games,
+    winrate: games > 0 ? ((wins / games) * 100).toFixed(1) : null,
+    kda: games > 0 ? kdaRatio(kills, deaths, assists) : null,
+    csPerMinute: minutes > 0 ? (cs / minutes).toFixed(1) : null,
+    visionPerMinute: minutes > 0 ? (visionScore / minutes).toFixed(2) : null,
+    championPool: {
+      uniqueChampions: Object.keys(champions).length,
+      top: Object.entries(champions)
+        .map(([championName, stats]) => ({ championName, ...stats }))
+        .sort((a, b) => b.games - a.games)
+        .slice(0, 3),
+    },
+    roles,
+  };
+};
+
+// Main handler for POST requests to this API route
+// Compares 2-5 players: rank, winrate, KDA, CS/min, vision, champion pool
+// and role distribution from each player's recent matches
+export async function POST(req: NextRequest) {
+  // Parse the JSON body - players is a list of { gameName, tagLine, platform }
+  const { players } = await req.json();
+
+  if (
+    !Array.isArray(players) ||
+    players.length < MIN_PLAYERS ||
+    players.length > MAX_PLAYERS
+  ) {
+    return NextResponse.json(
+      { error: `Provide between ${MIN_PLAYERS} and ${MAX_PLAYERS} players` },
+      { status: 400 }
+    );
+  }
+
+  // Validate every player before making any Riot API calls
+  const resolved: { platform: Platform; gameName: string; tagLine: string }[] =
+    [];
+  for (const player of players) {
+    if (!player?.gameName || !player?.tagLine) {
+      return NextResponse.json(
+        { error: "Every player needs a gameName and tagLine" },
+        { status: 400 }
+      );
+    }
+    const platform = getPlatform(player.platform || DEFAULT_PLATFORM);
+    if (!platform) {
+      return NextResponse.json(
+        { error: `Unknown platform: ${player.platform}` },
+        { status: 400 }
+      );
+    }
+    resolved.push({
+      platform,
+      gameName: player.gameName,
+      tagLine: player.tagLine,
+    });
+  }
+
+  try {
+    // Players are looked up one after another so a single comparison
+    // doesn't claim the whole rate limit budget at once
+    const comparisons = [];
+    for (const { platform, gameName, tagLine } of resolved) {
+      try {
+        comparisons.push(await getComparison(platform, gameName, tagLine));
+      } catch (err) {
+        if (!(err instanceof RiotApiError)) throw err;
+        if (err.status === 429) {
+          return rateLimitResponse();
+        }
+        return NextResponse.json(
+          {
+            error:
+              err.status === 404
+                ? `Account not found: ${gameName}#${tagLine}`
+                : `Failed to load ${gameName}#${tagLine}`,
+          },
+          { status: err.status === 404 ? 404 : 502 }
+        );
+      }
+    }
+
+    return NextResponse.json({ players: comparisons });
+  } catch (err) {
+    return NextResponse.json(
+      { error: "Internal server error", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import {
+  getAccountByRiotId,
+  getMatchIdsByPuuid,
+  getMatches,
+  getMatchTimeline,
+  RiotApiError,
+} from "../../utils/riotApi";
+// Import minimap event extraction
+import {
+  getPlayerMapEvents,
+  MapEvent,
+  SUMMONERS_RIFT_MAP_ID,
+} from "../../utils/mapEvents";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform } from "../../utils/regions";
+
+// Number of recent matches analysed by default, and the most a client may ask
+// for - every match costs a match and a timeline request
+const DEFAULT_MATCH_COUNT = 10;
+const MAX_MATCH_COUNT = 20;
+
+// Main handler for POST requests to this API route
+// Combines the player's map events (kills, deaths, assists, wards) from their
+// last N Summoner's Rift matches for the aggregate minimap heatmap
+export async function POST(req: NextRequest) {
+  // Parse the JSON body from the request
+  const {
+    gameName,
+    tagLine,
+    platform: platformId,
+    count = DEFAULT_MATCH_COUNT,
+  } = await req.json();
+
+  // Validate that both gameName and tagLine are provided
+  if (!gameName || !tagLine) {
+    return NextResponse.json(
+      { error: "Missing gameName or tagLine" },
+      { status: 400 }
+    );
+  }
+
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  const matchCount = Math.min(
+    Math.max(Math.floor(Number(count)) || DEFAULT_MATCH_COUNT, 1),
+    MAX_MATCH_COUNT
+  );
+
+  try {
+    // Step 1: Get PUUID from Riot ID (gameName + tagLine)
+    let puuid: string;
+    try {
+      const accountData = await getAccountByRiotId(platform, gameName, tagLine);
+      puuid = accountData.puuid;
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      if (err.status === 429) {
+        return rateLimitResponse();
+      }
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // Step 2: Get the most recent matches, keeping Summoner's Rift only
+    const matchIds = await getMatchIdsByPuuid(platform, puuid, {
+      start: 0,
+      count: matchCount,
+    });
+    const matches = (await getMatches(platform, matchIds)).filter(
+      (match) => match.info.mapId === SUMMONERS_RIFT_MAP_ID
+    );
+
+    // Step 3: Collect the player's events from each match's timeline
+    // Matches whose timeline is unavailable are skipped
+    const perMatch = await Promise.all(
+      matches.map(async (match) => {
+        const participant = match.info.participants.find(
+          (p) => p.puuid === puuid
+        );
+        if (!participant) return null;
+
+        try {
+          const timeline = await getMatchTimeline(
+            platform,
+            match.metadata.matchId
+          );
+          return getPlayerMapEvents(timeline, participant.participantId).map(
+            (event): MapEvent => ({ ...event, matchId: match.metadata.matchId })
+          );
+        } catch (err) {
+          if (!(err instanceof RiotApiError)) throw err;
+          return null;
+        }
+      })
+    );
+
+    const analyzed = perMatch.filter(
+      (events): events is MapEvent[] => events !== null
+    );
+
+    return NextResponse.json({
+      matchesAnalyzed: analyzed.length,
+      events: analyzed.flat(),
+    });
+  } catch (err) {
+    if (err instanceof RiotApiError && err.status === 429) {
+      return rateLimitResponse();
+    }
+    return NextResponse.json(
+      { error: "Internal server error", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
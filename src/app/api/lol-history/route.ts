@@ -1,13 +1,90 @@
 // Import necessary types from Next.js for handling API requests and responses
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import {
+  getAccountByRiotId,
+  getMatchIdsByPuuid,
+  getMatches,
+  MatchDto,
+  MatchIdsQuery,
+  RiotApiError,
+} from "../../utils/riotApi";
+// Import Data Dragon version helpers
+import {
+  fetchVersions,
+  findVersionForGameVersion,
+} from "../../utils/dataDragon";
+// Import role helpers
+import { getRole, ROLES } from "../../utils/roles";
+// Import performance ratings
+import { getPerformanceRatings } from "../../utils/performance";
+// Import queue name helpers
+import { getGameModeName } from "../../utils/queues";
+// Import shared match stat helpers
+import { isRemake } from "../../utils/matchStats";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform } from "../../utils/regions";
 
-// Get the Riot API key from environment variables - this is the key you set in .env.local
-const RIOT_API_KEY = process.env.RIOT_API_KEY;
+// Default and maximum page sizes - match-v5 returns at most 100 IDs per call
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
 
-// Define the base URLs for different Riot API endpoints
-// Americas region is used for account and match endpoints (global)
-const RIOT_API_BASE = "https://americas.api.riotgames.com";
+// Upper bound on match IDs scanned for one page when filtering server-side
+// If a filter is rare, the page comes back short with a cursor to continue
+const MAX_SCANNED_PER_PAGE = 100;
+
+// Filters accepted in the request body
+// queue, type, startTime and endTime are applied by Riot's match-v5 ids
+// endpoint; champion, role and result are applied by this route
+interface HistoryFilters {
+  queue?: number; // Queue ID, e.g. 420 for Ranked Solo/Duo
+  type?: string; // Match type, e.g. "ranked" or "normal"
+  startTime?: number; // Epoch seconds
+  endTime?: number; // Epoch seconds
+  champion?: number; // Champion key (numeric ID)
+  role?: string; // top, jungle, mid, adc or support
+  result?: "win" | "loss";
+}
+
+// Helper function to read filters from the request body, dropping empty
+// values and coercing numbers that arrive as strings from form inputs
+const parseFilters = (raw: { [key: string]: unknown }): HistoryFilters => {
+  const toNumber = (value: unknown) =>
+    value === undefined || value === null || value === ""
+      ? undefined
+      : Number.isFinite(Number(value))
+      ? Number(value)
+      : undefined;
+  const toString = (value: unknown) =>
+    typeof value === "string" && value !== "" ? value : undefined;
+
+  const result = toString(raw.result);
+  return {
+    queue: toNumber(raw.queue),
+    type: toString(raw.type),
+    startTime: toNumber(raw.startTime),
+    endTime: toNumber(raw.endTime),
+    champion: toNumber(raw.champion),
+    role: toString(raw.role),
+    result: result === "win" || result === "loss" ? result : undefined,
+  };
+};
+
+// Cursors are opaque to the client and carry the offset of the next page
+const encodeCursor = (start: number) =>
+  Buffer.from(JSON.stringify({ start })).toString("base64url");
+
+// Decode a cursor, returning null if it was not produced by encodeCursor
+const decodeCursor = (cursor: string): number | null => {
+  try {
+    const { start } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    return Number.isInteger(start) && start >= 0 ? start : null;
+  } catch {
+    return null;
+  }
+};
 
 // Helper function to format game duration in MM:SS format
 const formatGameDuration = (seconds: number) => {
@@ -33,35 +110,103 @@ const getTimeAgo = (timestamp: number) => {
   }
 };
 
-// Helper function to get human-readable game mode name
-const getGameModeName = (queueId: number, gameMode: string) => {
-  // Queue ID mapping for common game modes
-  const queueMap: { [key: number]: string } = {
-    400: "Normal Draft",
-    420: "Ranked Solo/Duo",
-    430: "Normal Blind",
-    440: "Ranked Flex",
-    450: "ARAM",
-    700: "Clash",
-    900: "URF",
-    1020: "One for All",
-    1300: "Nexus Blitz",
-    1400: "Ultimate Spellbook",
-    1700: "Arena",
-    1900: "URF",
-    2000: "Tutorial 1",
-    2010: "Tutorial 2",
-    2020: "Tutorial 3",
+// Helper function to turn a match into the summary shown on a match card
+// versions is the Data Dragon version list, used to find the match's patch
+const summarizeMatch = (match: MatchDto, puuid: string, versions: string[]) => {
+  // Find the participant data for the current player using their PUUID
+  const participant = match.info.participants.find((p) => p.puuid === puuid)!;
+
+  // Rate and rank every player of the match
+  const ratings = getPerformanceRatings(match);
+
+  // Get all players from both teams and organize them by role
+  const allPlayers = match.info.participants.map((p) => ({
+    summonerName: p.riotIdGameName || p.summonerName,
+    championName: p.championName,
+    teamId: p.teamId, // 100 for blue side, 200 for red side
+    kills: p.kills,
+    deaths: p.deaths,
+    assists: p.assists,
+    role: getRole(p),
+    isCurrentPlayer: p.puuid === puuid,
+    puuid: p.puuid, // Include PUUID for match details
+    performance: ratings[p.participantId],
+  }));
+
+  // Separate players by team
+  const blueTeam = allPlayers.filter((p) => p.teamId === 100);
+  const redTeam = allPlayers.filter((p) => p.teamId === 200);
+
+  // Sort teams by role order: top, jungle, mid, adc, support
+  const sortByRole = (a: { role: string }, b: { role: string }) => {
+    return ROLES.indexOf(a.role) - ROLES.indexOf(b.role);
   };
 
-  // Return mapped name or fallback to gameMode
-  return queueMap[queueId] || gameMode;
+  const sortedBlueTeam = blueTeam.sort(sortByRole);
+  const sortedRedTeam = redTeam.sort(sortByRole);
+
+  // Check if this was a remake (early surrender or < 3 minutes) or a game
+  // mode without meaningful results
+  const remade =
+    isRemake(match) ||
+    match.info.gameMode === "PRACTICETOOL" ||
+    match.info.gameType === "CUSTOM_GAME" ||
+    match.info.gameMode === "TUTORIAL";
+
+  // Get human-readable game mode name
+  const gameModeName = getGameModeName(match.info.queueId, match.info.gameMode);
+
+  // Return structured match data
+  return {
+    win: participant.win, // Boolean indicating if the player won
+    champion: participant.championName, // Champion the player played
+    performance: ratings[participant.participantId], // The player's rating, rank and badge
+    blueTeam: sortedBlueTeam,
+    redTeam: sortedRedTeam,
+    gameMode: gameModeName, // Human-readable game mode name
+    gameDuration: formatGameDuration(match.info.gameDuration), // MM:SS format
+    gameDurationSeconds: match.info.gameDuration, // Raw seconds for calculations
+    timeAgo: getTimeAgo(match.info.gameCreation), // Time since game ended
+    isRemake: remade, // Flag to indicate if this was a remake
+    matchId: match.metadata.matchId, // Include match ID for details
+    // Data Dragon version of the patch the match was played on, for assets
+    patch: findVersionForGameVersion(versions, match.info.gameVersion),
+  };
+};
+
+// Check whether a match passes the filters Riot cannot apply for us
+const matchesFilters = (
+  match: MatchDto,
+  puuid: string,
+  { champion, role, result }: HistoryFilters
+) => {
+  const participant = match.info.participants.find((p) => p.puuid === puuid);
+  if (!participant) return false;
+
+  if (champion !== undefined && participant.championId !== champion) {
+    return false;
+  }
+  if (role && getRole(participant) !== role) return false;
+  if (result === "win" && !participant.win) return false;
+  if (result === "loss" && participant.win) return false;
+
+  return true;
 };
 
 // Main handler for POST requests to this API route
 export async function POST(req: NextRequest) {
-  // Parse the JSON body from the request to get gameName and tagLine
-  const { gameName, tagLine } = await req.json();
+  // Parse the JSON body from the request to get gameName, tagLine and platform,
+  // plus the page to load (either a cursor from a previous page or start/count)
+  const {
+    gameName,
+    tagLine,
+    platform: platformId,
+    cursor,
+    start: startParam = 0,
+    count: countParam = DEFAULT_PAGE_SIZE,
+    filters: rawFilters = {},
+  } = await req.json();
+  const filters = parseFilters(rawFilters);
 
   // Validate that both gameName and tagLine are provided
   if (!gameName || !tagLine) {
@@ -71,163 +216,133 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  // Resolve where the page starts - a cursor takes precedence over start
+  const start = cursor ? decodeCursor(cursor) : Number(startParam);
+  if (start === null || !Number.isInteger(start) || start < 0) {
+    return NextResponse.json(
+      { error: "Invalid cursor or start" },
+      { status: 400 }
+    );
+  }
+
+  const count = Number(countParam);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_PAGE_SIZE) {
+    return NextResponse.json(
+      { error: `count must be between 1 and ${MAX_PAGE_SIZE}` },
+      { status: 400 }
+    );
+  }
+
   try {
     // Step 1: Get PUUID from Riot ID (gameName + tagLine)
     // This endpoint converts the Riot ID to a PUUID which is needed for other API calls
-    const accountRes = await fetch(
-      `${RIOT_API_BASE}/riot/account/v1/accounts/by-riot-id/${encodeURIComponent(
-        gameName
-      )}/${encodeURIComponent(tagLine)}`,
-      {
-        headers: {
-          "X-Riot-Token": RIOT_API_KEY!, // Include the API key in headers
-        },
+    let puuid: string;
+    try {
+      const accountData = await getAccountByRiotId(platform, gameName, tagLine);
+      puuid = accountData.puuid;
+    } catch (err) {
+      // Check if the account was found
+      if (err instanceof RiotApiError) {
+        return NextResponse.json(
+          { error: "Account not found" },
+          { status: 404 }
+        );
       }
-    );
-
-    // Check if the account was found
-    if (!accountRes.ok) {
-      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      throw err;
     }
 
-    // Parse the account data to get the PUUID
-    const accountData = await accountRes.json();
-    const puuid = accountData.puuid;
-
-    // Step 2: Get match IDs for this PUUID (last 20 matches for load more functionality)
-    // This endpoint returns a list of match IDs for the player
-    const matchIdsRes = await fetch(
-      `${RIOT_API_BASE}/lol/match/v5/matches/by-puuid/${puuid}/ids?start=0&count=20`,
-      {
-        headers: {
-          "X-Riot-Token": RIOT_API_KEY!,
-        },
+    // Step 2: Collect one page of matches, newest first
+    // Filters match-v5 supports are pushed upstream; the rest are applied here,
+    // so we may need to scan several upstream pages to fill one page
+    const upstreamQuery: MatchIdsQuery = {
+      queue: filters.queue,
+      type: filters.type,
+      startTime: filters.startTime,
+      endTime: filters.endTime,
+    };
+    const filterServerSide =
+      filters.champion !== undefined || !!filters.role || !!filters.result;
+
+    const pageMatches: MatchDto[] = [];
+    let offset = start; // Upstream offset of the next match ID to look at
+    let hasMore = true;
+
+    while (
+      pageMatches.length < count &&
+      hasMore &&
+      offset - start < MAX_SCANNED_PER_PAGE
+    ) {
+      // Without server-side filters every match is kept, so fetch exactly
+      // what is missing; otherwise scan in chunks of one page so a small
+      // page never loads far more matches than it shows (matches fetched
+      // past the cursor are cached for the next page)
+      const batchSize = filterServerSide
+        ? Math.min(count, MAX_SCANNED_PER_PAGE - (offset - start))
+        : count - pageMatches.length;
+
+      let matchIds: string[];
+      try {
+        matchIds = await getMatchIdsByPuuid(platform, puuid, {
+          ...upstreamQuery,
+          start: offset,
+          count: batchSize,
+        });
+      } catch (err) {
+        // Check if match IDs were successfully retrieved
+        if (err instanceof RiotApiError) {
+          return NextResponse.json(
+            { error: "Could not fetch match IDs" },
+            { status: 500 }
+          );
+        }
+        throw err;
       }
-    );
 
-    // Check if match IDs were successfully retrieved
-    if (!matchIdsRes.ok) {
-      return NextResponse.json(
-        { error: "Could not fetch match IDs" },
-        { status: 500 }
-      );
-    }
+      // Step 3: For each match ID, fetch detailed match information
+      // Matches that fail to load are skipped by the client
+      const batchMatches = await getMatches(platform, matchIds);
+      const byId = new Map(batchMatches.map((m) => [m.metadata.matchId, m]));
 
-    // Parse the match IDs array
-    const matchIds: string[] = await matchIdsRes.json();
-
-    // Step 3: For each match ID, fetch detailed match information
-    // Use Promise.all to fetch all matches concurrently for better performance
-    const matchDetails = await Promise.all(
-      matchIds.map(async (matchId) => {
-        // Fetch detailed match data for each match ID
-        const matchRes = await fetch(
-          `${RIOT_API_BASE}/lol/match/v5/matches/${matchId}`,
-          {
-            headers: {
-              "X-Riot-Token": RIOT_API_KEY!,
-            },
-          }
-        );
-        // If a match fails to load, return null (will be filtered out later)
-        if (!matchRes.ok) return null;
-        return await matchRes.json();
-      })
-    );
+      // Walk the batch in order so the cursor lands right after the last
+      // match we used - the next page resumes exactly there
+      let used = 0;
+      for (const matchId of matchIds) {
+        if (pageMatches.length >= count) break;
+        used++;
 
-    // Step 4: Extract relevant information for each match
-    // Filter out any null matches and process the data
-    const matches = matchDetails
-      .filter(Boolean) // Remove any null matches
-      .map((match: any) => {
-        // Find the participant data for the current player using their PUUID
-        const participant = match.info.participants.find(
-          (p: any) => p.puuid === puuid
-        );
+        const match = byId.get(matchId);
+        if (match && matchesFilters(match, puuid, filters)) {
+          pageMatches.push(match);
+        }
+      }
+      offset += used;
 
-        // Helper function to determine role based on teamPosition (Riot's best guess)
-        // teamPosition is more reliable than lane/role fields which are often incorrect
-        const getRole = (participant: any) => {
-          const teamPosition = participant.teamPosition;
-
-          // teamPosition values are: TOP, JUNGLE, MIDDLE, BOTTOM, UTILITY
-          if (teamPosition === "TOP") return "top";
-          if (teamPosition === "JUNGLE") return "jungle";
-          if (teamPosition === "MIDDLE") return "mid";
-          if (teamPosition === "BOTTOM") return "adc";
-          if (teamPosition === "UTILITY") return "support";
-
-          // Fallback to lane/role if teamPosition is missing (rare but possible)
-          const lane = participant.lane;
-          const role = participant.role;
-
-          if (lane === "TOP") return "top";
-          if (lane === "JUNGLE") return "jungle";
-          if (lane === "MIDDLE") return "mid";
-          if (lane === "BOTTOM" && role === "CARRY") return "adc";
-          if (lane === "BOTTOM" && role === "SUPPORT") return "support";
-          if (lane === "UTILITY") return "support";
-
-          // Final fallback for edge cases
-          return "unknown";
-        };
-
-        // Get all players from both teams and organize them by role
-        const allPlayers = match.info.participants.map((p: any) => ({
-          summonerName: p.riotIdGameName || p.summonerName,
-          championName: p.championName,
-          teamId: p.teamId, // 100 for blue side, 200 for red side
-          kills: p.kills,
-          deaths: p.deaths,
-          assists: p.assists,
-          role: getRole(p),
-          isCurrentPlayer: p.puuid === puuid,
-          puuid: p.puuid, // Include PUUID for match details
-        }));
-
-        // Separate players by team
-        const blueTeam = allPlayers.filter((p: any) => p.teamId === 100);
-        const redTeam = allPlayers.filter((p: any) => p.teamId === 200);
-
-        // Sort teams by role order: top, jungle, mid, adc, support
-        const roleOrder = ["top", "jungle", "mid", "adc", "support"];
-        const sortByRole = (a: any, b: any) => {
-          return roleOrder.indexOf(a.role) - roleOrder.indexOf(b.role);
-        };
-
-        const sortedBlueTeam = blueTeam.sort(sortByRole);
-        const sortedRedTeam = redTeam.sort(sortByRole);
-
-        // Check if this was a remake (game duration < 3 minutes or specific game modes)
-        const isRemake =
-          match.info.gameDuration < 180 || // Less than 3 minutes
-          match.info.gameMode === "PRACTICETOOL" ||
-          match.info.gameType === "CUSTOM_GAME" ||
-          match.info.gameMode === "TUTORIAL";
-
-        // Get human-readable game mode name
-        const gameModeName = getGameModeName(
-          match.info.queueId,
-          match.info.gameMode
-        );
+      // A short batch means Riot has no older matches for this player,
+      // unless the page filled up before we got through it
+      hasMore = matchIds.length === batchSize || used < matchIds.length;
+    }
 
-        // Return structured match data
-        return {
-          win: participant.win, // Boolean indicating if the player won
-          champion: participant.championName, // Champion the player played
-          blueTeam: sortedBlueTeam,
-          redTeam: sortedRedTeam,
-          gameMode: gameModeName, // Human-readable game mode name
-          gameDuration: formatGameDuration(match.info.gameDuration), // MM:SS format
-          gameDurationSeconds: match.info.gameDuration, // Raw seconds for calculations
-          timeAgo: getTimeAgo(match.info.gameCreation), // Time since game ended
-          isRemake: isRemake, // Flag to indicate if this was a remake
-          matchId: match.metadata.matchId, // Include match ID for details
-        };
-      });
+    // Step 4: Extract relevant information for each match
+    const versions = await fetchVersions();
+    const matches = pageMatches.map((match) =>
+      summarizeMatch(match, puuid, versions)
+    );
 
     // Return the processed matches data as JSON response
-    return NextResponse.json({ matches });
+    return NextResponse.json({
+      matches,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(offset) : null,
+    });
   } catch (err) {
     // Handle any unexpected errors and return a generic error message
     return NextResponse.json(
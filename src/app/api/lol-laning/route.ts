@@ -0,0 +1,104 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import {
+  getAccountByRiotId,
+  getMatchIdsByPuuid,
+  getMatches,
+  getMatchTimeline,
+  RiotApiError,
+} from "../../utils/riotApi";
+// Import laning phase comparison
+import {
+  getLaningAverages,
+  getLaningStats,
+  LaningStats,
+} from "../../utils/laning";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform } from "../../utils/regions";
+
+// Number of recent Ranked Solo/Duo matches compared to the lane opponent -
+// every match costs a match and a timeline request
+const LANING_MATCH_COUNT = 10;
+
+// Main handler for POST requests to this API route
+// Averages the player's laning phase against their lane opponent over their
+// most recent Ranked Solo/Duo matches. Loaded separately from the profile
+// because the timelines are slow to fetch
+export async function POST(req: NextRequest) {
+  // Parse the JSON body from the request to get gameName, tagLine and platform
+  const { gameName, tagLine, platform: platformId } = await req.json();
+
+  // Validate that both gameName and tagLine are provided
+  if (!gameName || !tagLine) {
+    return NextResponse.json(
+      { error: "Missing gameName or tagLine" },
+      { status: 400 }
+    );
+  }
+
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Step 1: Get PUUID from Riot ID (gameName + tagLine)
+    let puuid: string;
+    try {
+      const accountData = await getAccountByRiotId(platform, gameName, tagLine);
+      puuid = accountData.puuid;
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      if (err.status === 429) return rateLimitResponse();
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // Step 2: Get the most recent Ranked Solo/Duo matches
+    const matchIds = await getMatchIdsByPuuid(platform, puuid, {
+      queue: 420,
+      start: 0,
+      count: LANING_MATCH_COUNT,
+    });
+    const matches = await getMatches(platform, matchIds);
+
+    // Step 3: Compare each match's laning phase to the lane opponent
+    // Matches whose timeline is unavailable are left out of the average
+    const laningStats = await Promise.all(
+      matches.map(async (match) => {
+        try {
+          const timeline = await getMatchTimeline(
+            platform,
+            match.metadata.matchId
+          );
+          return getLaningStats(match, timeline, puuid);
+        } catch (err) {
+          if (!(err instanceof RiotApiError)) throw err;
+          return null;
+        }
+      })
+    );
+    const laned = laningStats.filter(
+      (stats): stats is LaningStats => stats !== null
+    );
+
+    // null when none of the matches had a lane opponent
+    return NextResponse.json({
+      laning: laned.length > 0 ? getLaningAverages(laned) : null,
+    });
+  } catch (err) {
+    if (err instanceof RiotApiError && err.status === 429) {
+      return rateLimitResponse();
+    }
+    return NextResponse.json(
+      { error: "Internal server error", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,217 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import {
+  CurrentGameInfoDto,
+  CurrentGameParticipantDto,
+  getAccountByRiotId,
+  getActiveGameByPuuid,
+  getLeagueEntriesBySummonerId,
+  getMatchIdsByPuuid,
+  getMatches,
+  getSummonerByPuuid,
+  RiotApiError,
+} from "../../utils/riotApi";
+// Import static data for champions, summoner spells and runes
+import { fetchChampionData } from "../../utils/championMapping";
+import { getLatestVersion } from "../../utils/dataDragon";
+import {
+  fetchSummonerSpellData,
+  getSummonerSpellInfo,
+} from "../../utils/spellMapping";
+import { fetchRuneData, getRunePageFromPerkIds } from "../../utils/runeMapping";
+// Import queue name helpers
+import { getGameModeName } from "../../utils/queues";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform, Platform } from "../../utils/regions";
+
+// Number of recent matches used for each player's recent winrate
+// Kept small - a live game has ten players to look up
+const RECENT_MATCH_COUNT = 5;
+
+// Get a participant's solo/duo rank, or null if unranked or unavailable
+const getSoloRank = async (
+  platform: Platform,
+  participant: CurrentGameParticipantDto
+) => {
+  try {
+    // Spectator responses may omit summonerId - fall back to summoner-v4
+    const summonerId =
+      participant.summonerId ||
+      (await getSummonerByPuuid(platform, participant.puuid)).id;
+    const entries = await getLeagueEntriesBySummonerId(platform, summonerId);
+    const solo = entries.find((entry) => entry.queueType === "RANKED_SOLO_5x5");
+    return solo
+      ? {
+          tier: solo.tier,
+          rank: solo.rank,
+          leaguePoints: solo.leaguePoints,
+          wins: solo.wins,
+          losses: solo.losses,
+        }
+      : null;
+  } catch (err) {
+    if (!(err instanceof RiotApiError)) throw err;
+    return null;
+  }
+};
+
+// Get a participant's results in their last few matches, or null if unavailable
+const getRecentResults = async (platform: Platform, puuid: string) => {
+  try {
+    const matchIds = await getMatchIdsByPuuid(platform, puuid, {
+      start: 0,
+      count: RECENT_MATCH_COUNT,
+    });
+    const matches = await getMatches(platform, matchIds);
+    const wins = matches.filter(
+      (match) => match.info.participants.find((p) => p.puuid === puuid)?.win
+    ).length;
+    return {
+      games: matches.length,
+      wins,
+      winrate:
+        matches.length > 0 ? ((wins / matches.length) * 100).toFixed(1) : null,
+    };
+  } catch (err) {
+    if (!(err instanceof RiotApiError)) throw err;
+    return null;
+  }
+};
+
+// Main handler for POST requests to this API route
+// Returns the game a player is currently in, or { inGame: false }
+// Ranks and recent winrates cost several requests per player, so they are
+// only looked up when the body sets enrich: true
+export async function POST(req: NextRequest) {
+  // Parse the JSON body from the request to get gameName, tagLine and platform
+  const {
+    gameName,
+    tagLine,
+    platform: platformId,
+    enrich = false,
+  } = await req.json();
+
+  // Validate that both gameName and tagLine are provided
+  if (!gameName || !tagLine) {
+    return NextResponse.json(
+      { error: "Missing gameName or tagLine" },
+      { status: 400 }
+    );
+  }
+
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Step 1: Get PUUID from Riot ID (gameName + tagLine)
+    let puuid: string;
+    try {
+      const accountData = await getAccountByRiotId(platform, gameName, tagLine);
+      puuid = accountData.puuid;
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      if (err.status === 429) {
+        return rateLimitResponse();
+      }
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // Step 2: Look up the live game - 404 means the player is not in one
+    let game: CurrentGameInfoDto;
+    try {
+      game = await getActiveGameByPuuid(platform, puuid);
+    } catch (err) {
+      if (err instanceof RiotApiError && err.status === 404) {
+        return NextResponse.json({ inGame: false });
+      }
+      throw err;
+    }
+
+    // Step 3: Static data for champions, spells and runes on the current patch
+    const version = await getLatestVersion();
+    const [championData, spellData, runeData] = await Promise.all([
+      fetchChampionData(),
+      fetchSummonerSpellData(version),
+      fetchRuneData(version),
+    ]);
+
+    const toChampion = (championId: number) => {
+      const champion = championData[championId.toString()];
+      return {
+        championId,
+        // Data Dragon ID, used for images; empty for unknown champions
+        id: champion ? champion.id : "",
+        name: champion ? champion.name : `Champion ${championId}`,
+      };
+    };
+
+    // Step 4: Build every participant, enriching humans with their rank and
+    // recent results when asked to
+    const players = await Promise.all(
+      game.participants.map(async (p) => ({
+        puuid: p.puuid,
+        riotId: p.riotId || "",
+        isCurrentPlayer: p.puuid === puuid,
+        bot: p.bot,
+        teamId: p.teamId,
+        champion: toChampion(p.championId),
+        summonerSpells: [p.spell1Id, p.spell2Id].map((id) =>
+          getSummonerSpellInfo(id, spellData, version)
+        ),
+        runes: getRunePageFromPerkIds(p.perks, runeData),
+        ...(enrich
+          ? {
+              rank: p.bot ? null : await getSoloRank(platform, p),
+              recent: p.bot ? null : await getRecentResults(platform, p.puuid),
+            }
+          : {}),
+      }))
+    );
+
+    // Step 5: Group players and bans by team
+    const teams = [100, 200].map((teamId) => ({
+      teamId,
+      bans: game.bannedChampions
+        .filter((ban) => ban.teamId === teamId && ban.championId > 0)
+        .map((ban) => ({
+          ...toChampion(ban.championId),
+          pickTurn: ban.pickTurn,
+        })),
+      players: players.filter((player) => player.teamId === teamId),
+    }));
+
+    return NextResponse.json({
+      inGame: true,
+      gameId: game.gameId,
+      queueId: game.gameQueueConfigId ?? 0,
+      gameMode: getGameModeName(game.gameQueueConfigId ?? 0, game.gameMode),
+      mapId: game.mapId,
+      // gameStartTime is 0 until everyone has loaded in
+      gameStartTime: game.gameStartTime || null,
+      gameLength: game.gameStartTime
+        ? Math.max(Math.floor((Date.now() - game.gameStartTime) / 1000), 0)
+        : 0,
+      version,
+      // Whether players carry rank and recent (see enrich above)
+      enriched: !!enrich,
+      teams,
+    });
+  } catch (err) {
+    if (err instanceof RiotApiError && err.status === 429) {
+      return rateLimitResponse();
+    }
+    return NextResponse.json(
+      { error: "Internal server error", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import {
+  getAccountByRiotId,
+  getLeagueEntriesBySummonerId,
+  getMatchIdsByPuuid,
+  getMatches,
+  getSummonerByPuuid,
+  RiotApiError,
+} from "../../utils/riotApi";
+// Import LP history storage and rank helpers
+import {
+  deriveLpChanges,
+  LpMatchChange,
+  LpSnapshot,
+  recordLeagueSnapshots,
+} from "../../utils/lpHistory";
+import { getLadderLp, RANKED_QUEUE_IDS } from "../../utils/ranks";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform } from "../../utils/regions";
+
+// Most ranked matches attributed per queue - only matches played after the
+// first stored snapshot are looked at
+const MAX_ATTRIBUTED_MATCHES = 20;
+
+// Main handler for POST requests to this API route
+// Stores a snapshot of the player's ranked entries and returns their LP
+// history per queue type, attributing LP changes to the ranked matches played
+// between snapshots. Loaded after the profile renders
+export async function POST(req: NextRequest) {
+  // Parse the JSON body from the request to get gameName, tagLine and platform
+  const { gameName, tagLine, platform: platformId } = await req.json();
+
+  // Validate that both gameName and tagLine are provided
+  if (!gameName || !tagLine) {
+    return NextResponse.json(
+      { error: "Missing gameName or tagLine" },
+      { status: 400 }
+    );
+  }
+
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Step 1: Get PUUID from Riot ID (gameName + tagLine)
+    let puuid: string;
+    try {
+      const accountData = await getAccountByRiotId(platform, gameName, tagLine);
+      puuid = accountData.puuid;
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      if (err.status === 429) return rateLimitResponse();
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // Step 2: Get the current ranked entries and store them as a snapshot
+    // The snapshot is stamped with the current time, so the entries are read
+    // fresh - cached ones could predate a match that has since ended
+    const summoner = await getSummonerByPuuid(platform, puuid);
+    const rankedData = await getLeagueEntriesBySummonerId(
+      platform,
+      summoner.id,
+      true
+    );
+    const snapshots = await recordLeagueSnapshots(
+      platform.id,
+      puuid,
+      rankedData
+    );
+
+    // Step 3: Build the history per queue type
+    const lpHistory: {
+      [queueType: string]: {
+        snapshots: (LpSnapshot & { ladderLp: number })[];
+        matches: LpMatchChange[];
+      };
+    } = {};
+
+    for (const queueType of Object.keys(RANKED_QUEUE_IDS)) {
+      const queueSnapshots = snapshots.filter(
+        (snapshot) => snapshot.queueType === queueType
+      );
+      if (queueSnapshots.length === 0) continue;
+
+      let matches: LpMatchChange[] = [];
+      if (queueSnapshots.length > 1) {
+        // Only matches after the first snapshot can be attributed
+        const matchIds = await getMatchIdsByPuuid(platform, puuid, {
+          queue: RANKED_QUEUE_IDS[queueType],
+          startTime: Math.floor(queueSnapshots[0].timestamp / 1000),
+          start: 0,
+          count: MAX_ATTRIBUTED_MATCHES,
+        });
+        const queueMatches = (await getMatches(platform, matchIds)).map(
+          (match) => ({
+            matchId: match.metadata.matchId,
+            timestamp:
+              match.info.gameEndTimestamp ||
+              match.info.gameCreation + match.info.gameDuration * 1000,
+            win: !!match.info.participants.find((p) => p.puuid === puuid)?.win,
+          })
+        );
+        matches = deriveLpChanges(queueSnapshots, queueMatches);
+      }
+
+      lpHistory[queueType] = {
+        snapshots: queueSnapshots.map((snapshot) => ({
+          ...snapshot,
+          ladderLp: getLadderLp(
+            snapshot.tier,
+            snapshot.rank,
+            snapshot.leaguePoints
+          ),
+        })),
+        matches,
+      };
+    }
+
+    return NextResponse.json({ lpHistory });
+  } catch (err) {
+    if (err instanceof RiotApiError && err.status === 429) {
+      return rateLimitResponse();
+    }
+    return NextResponse.json(
+      { error: "Internal server error", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,41 @@
 // Import necessary types from Next.js for handling API requests and responses
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
-
-// Get the Riot API key from environment variables
-const RIOT_API_KEY = process.env.RIOT_API_KEY;
-
-// Define the base URLs for different Riot API endpoints
-const RIOT_API_BASE = "https://americas.api.riotgames.com";
+// Import the shared Riot API client
+import {
+  getMatch,
+  getMatchTimeline,
+  MatchDto,
+  RiotApiError,
+  TimelineDto,
+  TimelineEventDto,
+} from "../../utils/riotApi";
+// Import Data Dragon version helpers
+import { getVersionForGameVersion } from "../../utils/dataDragon";
+// Import static data for summoner spells and runes
+import {
+  fetchSummonerSpellData,
+  getSummonerSpellInfo,
+} from "../../utils/spellMapping";
+import { fetchRuneData, getRunePage } from "../../utils/runeMapping";
+// Import minimap event extraction
+import { getPlayerMapEvents } from "../../utils/mapEvents";
+// Import build and skill order reconstruction
+import { getItemBuild, getSkillOrder } from "../../utils/buildOrder";
+// Import laning phase comparison
+import { getLaneOpponent, getLaningStats } from "../../utils/laning";
+// Import performance ratings
+import { getPerformanceRatings } from "../../utils/performance";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import shared match stat helpers
+import { kdaRatio } from "../../utils/matchStats";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform } from "../../utils/regions";
 
 // Main handler for POST requests to this API route
 export async function POST(req: NextRequest) {
-  // Parse the JSON body from the request to get matchId and puuid
-  const { matchId, puuid } = await req.json();
+  // Parse the JSON body from the request to get matchId, puuid and platform
+  const { matchId, puuid, platform: platformId } = await req.json();
 
   // Validate that both matchId and puuid are provided
   if (!matchId || !puuid) {
@@ -21,41 +45,41 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
   try {
     // Step 1: Get detailed match information
-    const matchRes = await fetch(
-      `${RIOT_API_BASE}/lol/match/v5/matches/${matchId}`,
-      {
-        headers: {
-          "X-Riot-Token": RIOT_API_KEY!,
-        },
+    let matchData: MatchDto;
+    try {
+      matchData = await getMatch(platform, matchId);
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      if (err.status === 429) return rateLimitResponse();
+      if (err.status === 404) {
+        return NextResponse.json({ error: "Match not found" }, { status: 404 });
       }
-    );
-
-    if (!matchRes.ok) {
-      return NextResponse.json({ error: "Match not found" }, { status: 404 });
+      // Other upstream failures (5xx) are reported as server errors below
+      throw err;
     }
 
-    const matchData = await matchRes.json();
-
-    // Step 2: Get match timeline
-    const timelineRes = await fetch(
-      `${RIOT_API_BASE}/lol/match/v5/matches/${matchId}/timeline`,
-      {
-        headers: {
-          "X-Riot-Token": RIOT_API_KEY!,
-        },
-      }
-    );
-
-    let timelineData = null;
-    if (timelineRes.ok) {
-      timelineData = await timelineRes.json();
+    // Step 2: Get match timeline (optional - analytics still work without it)
+    let timelineData: TimelineDto | null = null;
+    try {
+      timelineData = await getMatchTimeline(platform, matchId);
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
     }
 
     // Step 3: Find the current player's data
     const currentPlayer = matchData.info.participants.find(
-      (p: any) => p.puuid === puuid
+      (p) => p.puuid === puuid
     );
 
     if (!currentPlayer) {
@@ -65,19 +89,24 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Resolve the patch's Data Dragon version and its spell and rune data
+    const patch = await getVersionForGameVersion(matchData.info.gameVersion);
+    const [spellData, runeData] = await Promise.all([
+      fetchSummonerSpellData(patch),
+      fetchRuneData(patch),
+    ]);
+
     // Step 4: Extract detailed player statistics
     const playerStats = {
       // Basic stats
       kills: currentPlayer.kills,
       deaths: currentPlayer.deaths,
       assists: currentPlayer.assists,
-      kda:
-        currentPlayer.kills + currentPlayer.assists > 0
-          ? (
-              (currentPlayer.kills + currentPlayer.assists) /
-              Math.max(currentPlayer.deaths, 1)
-            ).toFixed(2)
-          : "0.00",
+      kda: kdaRatio(
+        currentPlayer.kills,
+        currentPlayer.deaths,
+        currentPlayer.assists
+      ),
 
       // Damage stats
       totalDamageDealtToChampions: currentPlayer.totalDamageDealtToChampions,
@@ -104,7 +133,7 @@ export async function POST(req: NextRequest) {
         (matchData.info.gameDuration / 60)
       ).toFixed(1),
 
-      // Items
+      // Items - the six inventory slots (0 for an empty slot) and the trinket
       items: [
         currentPlayer.item0,
         currentPlayer.item1,
@@ -112,12 +141,19 @@ export async function POST(req: NextRequest) {
         currentPlayer.item3,
         currentPlayer.item4,
         currentPlayer.item5,
-        currentPlayer.item6,
-      ].filter((item) => item !== 0), // Remove empty item slots
+      ],
+      trinket: currentPlayer.item6,
 
       // Summoner spells
       summoner1Id: currentPlayer.summoner1Id,
       summoner2Id: currentPlayer.summoner2Id,
+      summonerSpells: [
+        currentPlayer.summoner1Id,
+        currentPlayer.summoner2Id,
+      ].map((id) => getSummonerSpellInfo(id, spellData, patch)),
+
+      // Full rune page - trees, runes and stat shards
+      runes: getRunePage(currentPlayer.perks, runeData),
 
       // Champion info
       championName: currentPlayer.championName,
@@ -136,21 +172,21 @@ export async function POST(req: NextRequest) {
     };
 
     // Step 5: Extract timeline events for the current player
-    let playerTimeline: any[] = [];
+    let playerTimeline: TimelineEventDto[] = [];
     if (timelineData) {
       const playerId = currentPlayer.participantId;
 
       // Get all events involving the current player
-      playerTimeline = timelineData.info.frames.flatMap((frame: any) =>
+      playerTimeline = timelineData.info.frames.flatMap((frame) =>
         frame.events
           .filter(
-            (event: any) =>
+            (event) =>
               event.participantId === playerId ||
               event.killerId === playerId ||
               event.victimId === playerId ||
               event.assistingParticipantIds?.includes(playerId)
           )
-          .map((event: any) => ({
+          .map((event) => ({
             ...event,
             timestamp: frame.timestamp,
             realTimestamp: event.realTimestamp || frame.timestamp,
@@ -159,7 +195,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Step 6: Extract team objectives
-    const teamObjectives = matchData.info.teams.map((team: any) => ({
+    const teamObjectives = matchData.info.teams.map((team) => ({
       teamId: team.teamId,
       win: team.win,
       objectives: {
@@ -171,19 +207,160 @@ export async function POST(req: NextRequest) {
       },
     }));
 
+    // Step 7: Build the scoreboard - every participant, grouped by team,
+    // with their performance rating and rank among all players
+    const ratings = getPerformanceRatings(matchData);
+    const scoreboard = matchData.info.teams.map((team) => {
+      const players = matchData.info.participants
+        .filter((p) => p.teamId === team.teamId)
+        .map((p) => ({
+          puuid: p.puuid,
+          riotIdGameName: p.riotIdGameName || p.summonerName,
+          riotIdTagline: p.riotIdTagline || "",
+          isCurrentPlayer: p.puuid === puuid,
+          championName: p.championName,
+          championLevel: p.champLevel,
+          teamPosition: p.teamPosition,
+          kills: p.kills,
+          deaths: p.deaths,
+          assists: p.assists,
+          kda: kdaRatio(p.kills, p.deaths, p.assists),
+          totalDamageDealtToChampions: p.totalDamageDealtToChampions,
+          goldEarned: p.goldEarned,
+          cs: p.totalMinionsKilled + p.neutralMinionsKilled,
+          visionScore: p.visionScore,
+          items: [p.item0, p.item1, p.item2, p.item3, p.item4, p.item5],
+          trinket: p.item6,
+          summonerSpells: [p.summoner1Id, p.summoner2Id].map((id) =>
+            getSummonerSpellInfo(id, spellData, patch)
+          ),
+          runes: getRunePage(p.perks, runeData),
+          performance: ratings[p.participantId],
+        }));
+
+      // Team totals, summed over the players above
+      const sum = (
+        field:
+          | "kills"
+          | "deaths"
+          | "assists"
+          | "totalDamageDealtToChampions"
+          | "goldEarned"
+          | "cs"
+          | "visionScore"
+      ) => players.reduce((total, p) => total + p[field], 0);
+
+      return {
+        teamId: team.teamId,
+        win: team.win,
+        players,
+        totals: {
+          kills: sum("kills"),
+          deaths: sum("deaths"),
+          assists: sum("assists"),
+          totalDamageDealtToChampions: sum("totalDamageDealtToChampions"),
+          goldEarned: sum("goldEarned"),
+          cs: sum("cs"),
+          visionScore: sum("visionScore"),
+        },
+      };
+    });
+
+    // Step 8: Build per-minute gold and XP curves from the timeline frames
+    // The lane opponent is the enemy playing the same teamPosition
+    const laneOpponent = getLaneOpponent(matchData, currentPlayer);
+
+    let leadGraphs = null;
+    if (timelineData) {
+      const teamOf: { [participantId: string]: number } = {};
+      matchData.info.participants.forEach((p) => {
+        teamOf[p.participantId] = p.teamId;
+      });
+
+      leadGraphs = {
+        opponent: laneOpponent
+          ? {
+              championName: laneOpponent.championName,
+              riotIdGameName:
+                laneOpponent.riotIdGameName || laneOpponent.summonerName,
+            }
+          : null,
+        frames: timelineData.info.frames.map((frame) => {
+          const curve = (participantId: number) => {
+            const pf = frame.participantFrames[participantId];
+            return pf
+              ? {
+                  gold: pf.totalGold,
+                  xp: pf.xp,
+                  cs: pf.minionsKilled + pf.jungleMinionsKilled,
+                }
+              : { gold: 0, xp: 0, cs: 0 };
+          };
+
+          // Team gold difference from the searched player's team's perspective
+          const teamGoldDiff = Object.values(frame.participantFrames).reduce(
+            (diff, pf) =>
+              teamOf[pf.participantId] === currentPlayer.teamId
+                ? diff + pf.totalGold
+                : diff - pf.totalGold,
+            0
+          );
+
+          return {
+            // The last frame is at the end of the game, not on a full minute
+            minute: Math.round(frame.timestamp / 6000) / 10,
+            teamGoldDiff,
+            player: curve(currentPlayer.participantId),
+            opponent: laneOpponent ? curve(laneOpponent.participantId) : null,
+          };
+        }),
+      };
+    }
+
+    // Step 9: Positions of the player's kills, deaths, assists and wards
+    const mapEvents = timelineData
+      ? getPlayerMapEvents(timelineData, currentPlayer.participantId)
+      : [];
+
+    // Step 10: Item build path (grouped by back) and skill order
+    const itemBuild = timelineData
+      ? getItemBuild(timelineData, currentPlayer.participantId)
+      : [];
+    const skillOrder = timelineData
+      ? getSkillOrder(timelineData, currentPlayer.participantId)
+      : [];
+
+    // Step 11: Laning phase against the direct lane opponent
+    const laning = timelineData
+      ? getLaningStats(matchData, timelineData, puuid)
+      : null;
+
     // Return structured match details
     return NextResponse.json({
       playerStats,
       playerTimeline,
       teamObjectives,
+      scoreboard,
+      leadGraphs,
+      mapEvents,
+      itemBuild,
+      skillOrder,
+      laning,
       matchInfo: {
         gameCreation: matchData.info.gameCreation,
         gameDuration: matchData.info.gameDuration,
         gameMode: matchData.info.gameMode,
         queueId: matchData.info.queueId,
+        mapId: matchData.info.mapId,
+        gameVersion: matchData.info.gameVersion,
+        // Data Dragon version of the patch the match was played on, for assets
+        patch,
       },
     });
   } catch (err) {
+    if (err instanceof RiotApiError && err.status === 429) {
+      return rateLimitResponse();
+    }
     return NextResponse.json(
       { error: "Internal server error", details: String(err) },
       { status: 500 }
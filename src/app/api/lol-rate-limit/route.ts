@@ -0,0 +1,38 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared rate limiter and platform routing helpers
+import { getRateLimitStatus } from "../../utils/rateLimiter";
+import {
+  DEFAULT_PLATFORM,
+  getAccountRegion,
+  getPlatform,
+} from "../../utils/regions";
+
+// Main handler for GET requests to this API route
+// Returns the remaining Riot API budget for every host a lookup on the given
+// platform talks to, so the UI can show how long a search will wait
+export async function GET(req: NextRequest) {
+  const platformId =
+    req.nextUrl.searchParams.get("platform") || DEFAULT_PLATFORM;
+
+  const platform = getPlatform(platformId);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  // Account, match and platform calls are limited separately
+  const routingValues = Array.from(
+    new Set([getAccountRegion(platform), platform.region, platform.id])
+  );
+  const limits = getRateLimitStatus(routingValues);
+
+  return NextResponse.json({
+    platform: platform.id,
+    estimatedWaitMs: Math.max(...limits.map((l) => l.estimatedWaitMs)),
+    queued: limits.reduce((sum, l) => sum + l.queued, 0),
+    limits,
+  });
+}
@@ -0,0 +1,91 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import {
+  getAccountByRiotId,
+  getMatchIdsByPuuid,
+  getMatches,
+  RiotApiError,
+} from "../../utils/riotApi";
+// Import frequent teammate aggregation
+import { getFrequentTeammates } from "../../utils/teammates";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform } from "../../utils/regions";
+
+// Number of recent matches analysed by default, and the most a client may ask
+// for - match-v5 returns at most 100 IDs per call
+const DEFAULT_MATCH_COUNT = 20;
+const MAX_MATCH_COUNT = 100;
+
+// Main handler for POST requests to this API route
+// Finds the players who were on the searched player's team in several of
+// their last N matches, with games, winrate and KDA together
+export async function POST(req: NextRequest) {
+  // Parse the JSON body from the request
+  const {
+    gameName,
+    tagLine,
+    platform: platformId,
+    count = DEFAULT_MATCH_COUNT,
+  } = await req.json();
+
+  // Validate that both gameName and tagLine are provided
+  if (!gameName || !tagLine) {
+    return NextResponse.json(
+      { error: "Missing gameName or tagLine" },
+      { status: 400 }
+    );
+  }
+
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  const matchCount = Math.min(
+    Math.max(Math.floor(Number(count)) || DEFAULT_MATCH_COUNT, 1),
+    MAX_MATCH_COUNT
+  );
+
+  try {
+    // Step 1: Get PUUID from Riot ID (gameName + tagLine)
+    let puuid: string;
+    try {
+      const accountData = await getAccountByRiotId(platform, gameName, tagLine);
+      puuid = accountData.puuid;
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      if (err.status === 429) {
+        return rateLimitResponse();
+      }
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // Step 2: Get the most recent matches in any queue
+    const matchIds = await getMatchIdsByPuuid(platform, puuid, {
+      start: 0,
+      count: matchCount,
+    });
+    const matches = await getMatches(platform, matchIds);
+
+    // Step 3: Aggregate the players seen on the same team
+    return NextResponse.json({
+      matchesAnalyzed: matches.length,
+      teammates: getFrequentTeammates(matches, puuid),
+    });
+  } catch (err) {
+    if (err instanceof RiotApiError && err.status === 429) {
+      return rateLimitResponse();
+    }
+    return NextResponse.json(
+      { error: "Internal server error", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
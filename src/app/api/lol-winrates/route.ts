@@ -0,0 +1,137 @@
+// Import necessary types from Next.js for handling API requests and responses
+import { NextRequest, NextResponse } from "next/server";
+// Import the shared Riot API client
+import { getAccountByRiotId, RiotApiError } from "../../utils/riotApi";
+// Import champion winrate aggregation
+import {
+  DEFAULT_WINRATE_SAMPLE,
+  getChampionWinrates,
+  getChampionWinratesByRole,
+  getSeasonStartTime,
+  getWinrateSample,
+} from "../../utils/winrates";
+// Import shared API responses
+import { rateLimitResponse } from "../../utils/apiResponses";
+// Import platform routing helpers
+import { DEFAULT_PLATFORM, getPlatform } from "../../utils/regions";
+
+// Most recent matches an explicit count may ask for - a whole season is
+// requested with count "season" instead
+const MAX_MATCH_COUNT = 100;
+
+// Main handler for POST requests to this API route
+// Builds the champion winrate table from a sample chosen by the client:
+// count is a number of recent matches or "season" for the current season,
+// queues the queue IDs to include (empty for all), and includeRemakes
+// whether remade games count
+// An uncached match costs one request, so a season can take minutes on a
+// development key - the client loads it progressively by passing a growing
+// limit (its latest matches so far) until the response is complete. Matches
+// are cached forever, so each step only fetches the new ones
+export async function POST(req: NextRequest) {
+  // Parse the JSON body from the request
+  const {
+    gameName,
+    tagLine,
+    platform: platformId,
+    count = DEFAULT_WINRATE_SAMPLE.count,
+    queues = DEFAULT_WINRATE_SAMPLE.queues,
+    includeRemakes = false,
+    limit,
+  } = await req.json();
+
+  // Validate that both gameName and tagLine are provided
+  if (!gameName || !tagLine) {
+    return NextResponse.json(
+      { error: "Missing gameName or tagLine" },
+      { status: 400 }
+    );
+  }
+
+  // Resolve the platform the player's account lives on (defaults to NA)
+  const platform = getPlatform(platformId || DEFAULT_PLATFORM);
+  if (!platform) {
+    return NextResponse.json(
+      { error: `Unknown platform: ${platformId}` },
+      { status: 400 }
+    );
+  }
+
+  // Validate the sample - a season is every match since it started, or its
+  // latest limit matches while it is loaded progressively
+  const season = count === "season";
+  const matchCount = season ? limit ?? Infinity : Number(count);
+  if (
+    !season &&
+    (!Number.isInteger(matchCount) ||
+      matchCount < 1 ||
+      matchCount > MAX_MATCH_COUNT)
+  ) {
+    return NextResponse.json(
+      { error: `count must be "season" or between 1 and ${MAX_MATCH_COUNT}` },
+      { status: 400 }
+    );
+  }
+  if (
+    season &&
+    matchCount !== Infinity &&
+    (!Number.isInteger(matchCount) || matchCount < 1)
+  ) {
+    return NextResponse.json(
+      { error: "limit must be a positive number of matches" },
+      { status: 400 }
+    );
+  }
+  if (
+    !Array.isArray(queues) ||
+    !queues.every((queue) => Number.isInteger(queue))
+  ) {
+    return NextResponse.json(
+      { error: "queues must be a list of queue IDs" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Step 1: Get PUUID from Riot ID (gameName + tagLine)
+    let puuid: string;
+    try {
+      const accountData = await getAccountByRiotId(platform, gameName, tagLine);
+      puuid = accountData.puuid;
+    } catch (err) {
+      if (!(err instanceof RiotApiError)) throw err;
+      if (err.status === 429) {
+        return rateLimitResponse();
+      }
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    // Step 2: Collect the sample, paging through match IDs as needed
+    const matches = await getWinrateSample(platform, puuid, {
+      count: matchCount,
+      queues,
+      startTime: season ? getSeasonStartTime() : undefined,
+    });
+
+    // Step 3: Aggregate per champion, over all matches and per role
+    return NextResponse.json({
+      matchesAnalyzed: matches.length,
+      // False while a season limit left out older matches
+      complete: !season || matches.length < matchCount,
+      winrates: getChampionWinrates(matches, puuid, !!includeRemakes),
+      winratesByRole: getChampionWinratesByRole(
+        matches,
+        puuid,
+        !!includeRemakes
+      ),
+    });
+  } catch (err) {
+    if (err instanceof RiotApiError && err.status === 429) {
+      return rateLimitResponse();
+    }
+    return NextResponse.json(
+      { error: "Internal server error", details: String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,361 @@
+// Import Next.js Link component and the not-found helper
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+// Import champion and Data Dragon helpers
+import {
+  ChampionSpell,
+  fetchChampionDetails,
+} from "../../utils/championMapping";
+import {
+  DDRAGON_BASE,
+  getImageUrl,
+  getLatestVersion,
+} from "../../utils/dataDragon";
+
+// Route params for /champions/[id], where id is the Data Dragon ID
+interface ChampionPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Base stats shown in the stats table: label, base key and growth key
+const STAT_ROWS: { label: string; base: string; growth?: string }[] = [
+  { label: "Health", base: "hp", growth: "hpperlevel" },
+  { label: "Health Regen", base: "hpregen", growth: "hpregenperlevel" },
+  { label: "Resource", base: "mp", growth: "mpperlevel" },
+  { label: "Resource Regen", base: "mpregen", growth: "mpregenperlevel" },
+  { label: "Armor", base: "armor", growth: "armorperlevel" },
+  { label: "Magic Resist", base: "spellblock", growth: "spellblockperlevel" },
+  {
+    label: "Attack Damage",
+    base: "attackdamage",
+    growth: "attackdamageperlevel",
+  },
+  { label: "Attack Speed", base: "attackspeed", growth: "attackspeedperlevel" },
+  { label: "Attack Range", base: "attackrange" },
+  { label: "Move Speed", base: "movespeed" },
+];
+
+const SPELL_KEYS = ["Q", "W", "E", "R"];
+
+// Turn Data Dragon description markup into plain text
+const stripMarkup = (text: string) =>
+  text
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+
+// Format per-rank values, e.g. [10, 9, 8] -> "10 / 9 / 8"
+// Identical values collapse to one, e.g. [0, 0, 0] -> "0"
+const formatRanks = (values: number[]) =>
+  new Set(values).size === 1 ? `${values[0]}` : values.join(" / ");
+
+// Page title shows the champion name, e.g. "Ahri - the Nine-Tailed Fox"
+export async function generateMetadata({
+  params,
+}: ChampionPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const champion = await fetchChampionDetails(id);
+  if (!champion) return { title: "Champion not found" };
+
+  return { title: `${champion.name} - ${champion.title}` };
+}
+
+const sectionStyle: React.CSSProperties = {
+  marginBottom: 32,
+  padding: 16,
+  backgroundColor: "#f8f9fa",
+  borderRadius: 8,
+  border: "1px solid #ddd",
+  color: "#333",
+};
+
+// Champion detail page: abilities, base stats, tags, skins and lore
+export default async function ChampionPage({ params }: ChampionPageProps) {
+  const { id } = await params;
+  const champion = await fetchChampionDetails(id);
+  if (!champion) notFound();
+
+  const version = await getLatestVersion();
+
+  // One ability card - the passive has no rank data
+  const renderAbility = (
+    key: string,
+    name: string,
+    description: string,
+    image: string,
+    spell?: ChampionSpell
+  ) => (
+    <div
+      key={key}
+      style={{
+        display: "flex",
+        gap: 12,
+        padding: 12,
+        marginBottom: 8,
+        backgroundColor: "white",
+        borderRadius: 8,
+        border: "1px solid #ddd",
+      }}
+    >
+      <div
+        role="img"
+        aria-label={name}
+        style={{
+          width: 48,
+          height: 48,
+          flexShrink: 0,
+          backgroundImage: `url(${image})`,
+          backgroundSize: "cover",
+        }}
+      />
+      <div>
+        <div style={{ fontWeight: "bold" }}>
+          <span style={{ color: "#0066cc" }}>{key}</span> - {name}
+        </div>
+        <div style={{ fontSize: 14, whiteSpace: "pre-line", margin: "4px 0" }}>
+          {stripMarkup(description)}
+        </div>
+        {spell && (
+          <div style={{ fontSize: 12, color: "#666" }}>
+            <strong>Cooldown:</strong> {formatRanks(spell.cooldown)}s
+            {spell.cost.some((cost) => cost > 0) && (
+              <>
+                {" "}
+                &middot; <strong>Cost:</strong> {formatRanks(spell.cost)}{" "}
+                {champion.partype}
+              </>
+            )}{" "}
+            &middot; <strong>Range:</strong> {formatRanks(spell.range)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <main
+      style={{
+        maxWidth: 1400,
+        margin: "0 auto",
+        padding: 32,
+        fontFamily: "Arial, sans-serif",
+      }}
+    >
+      {/* Navigation */}
+      <div style={{ textAlign: "center", marginBottom: 24 }}>
+        <Link
+          href="/"
+          style={{
+            marginRight: 16,
+            padding: "8px 16px",
+            backgroundColor: "#007bff",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Match History
+        </Link>
+        <Link
+          href="/champions"
+          style={{
+            marginRight: 16,
+            padding: "8px 16px",
+            backgroundColor: "#28a745",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Champions
+        </Link>
+        <Link
+          href="/compare"
+          style={{
+            padding: "8px 16px",
+            backgroundColor: "#6f42c1",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Compare
+        </Link>
+      </div>
+
+      {/* Header with the default splash art */}
+      <div
+        style={{
+          position: "relative",
+          height: 320,
+          borderRadius: 8,
+          overflow: "hidden",
+          marginBottom: 32,
+          backgroundImage: `url(${DDRAGON_BASE}/cdn/img/champion/splash/${champion.id}_0.jpg)`,
+          backgroundSize: "cover",
+          backgroundPosition: "center 20%",
+        }}
+      >
+        <div
+          style={{
+            position: "absolute",
+            left: 0,
+            right: 0,
+            bottom: 0,
+            padding: 24,
+            background: "linear-gradient(transparent, rgba(0,0,0,0.8))",
+            color: "white",
+          }}
+        >
+          <h1 style={{ margin: 0 }}>{champion.name}</h1>
+          <div style={{ fontStyle: "italic", marginBottom: 8 }}>
+            {champion.title}
+          </div>
+          <div style={{ display: "flex", gap: 8 }}>
+            {champion.tags.map((tag) => (
+              <span
+                key={tag}
+                style={{
+                  padding: "2px 8px",
+                  backgroundColor: "#0066cc",
+                  borderRadius: 4,
+                  fontSize: 12,
+                }}
+              >
+                {tag}
+              </span>
+            ))}
+            {champion.partype && (
+              <span
+                style={{
+                  padding: "2px 8px",
+                  backgroundColor: "#6c757d",
+                  borderRadius: 4,
+                  fontSize: 12,
+                }}
+              >
+                {champion.partype}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 32, alignItems: "flex-start" }}>
+        {/* Left column - abilities and lore */}
+        <div style={{ flex: 2 }}>
+          <div style={sectionStyle}>
+            <h2 style={{ marginTop: 0 }}>Abilities</h2>
+            {renderAbility(
+              "P",
+              champion.passive.name,
+              champion.passive.description,
+              getImageUrl(version, "passive", champion.passive.image.full)
+            )}
+            {champion.spells.map((spell, idx) =>
+              renderAbility(
+                SPELL_KEYS[idx],
+                spell.name,
+                spell.description,
+                getImageUrl(version, "spell", spell.image.full),
+                spell
+              )
+            )}
+          </div>
+
+          <div style={sectionStyle}>
+            <h2 style={{ marginTop: 0 }}>Lore</h2>
+            <p style={{ lineHeight: 1.6 }}>{stripMarkup(champion.lore)}</p>
+          </div>
+        </div>
+
+        {/* Right column - stats and ratings */}
+        <div style={{ flex: 1 }}>
+          <div style={sectionStyle}>
+            <h2 style={{ marginTop: 0 }}>Base Stats</h2>
+            <table style={{ width: "100%", fontSize: 14 }}>
+              <tbody>
+                {STAT_ROWS.map((row) => (
+                  <tr key={row.base}>
+                    <td style={{ padding: "4px 0" }}>{row.label}</td>
+                    <td style={{ textAlign: "right" }}>
+                      {champion.stats[row.base]}
+                      {row.growth && champion.stats[row.growth] ? (
+                        <span style={{ color: "#28a745" }}>
+                          {" "}
+                          (+{champion.stats[row.growth]} per level)
+                        </span>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={sectionStyle}>
+            <h2 style={{ marginTop: 0 }}>Ratings</h2>
+            {(["attack", "defense", "magic", "difficulty"] as const).map(
+              (rating) => (
+                <div key={rating} style={{ marginBottom: 8, fontSize: 14 }}>
+                  <div style={{ textTransform: "capitalize" }}>{rating}</div>
+                  <div
+                    style={{
+                      height: 8,
+                      backgroundColor: "#e9ecef",
+                      borderRadius: 4,
+                    }}
+                  >
+                    <div
+                      style={{
+                        width: `${champion.info[rating] * 10}%`,
+                        height: "100%",
+                        backgroundColor: "#0066cc",
+                        borderRadius: 4,
+                      }}
+                    />
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Skins */}
+      <div style={sectionStyle}>
+        <h2 style={{ marginTop: 0 }}>Skins ({champion.skins.length})</h2>
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(6, 1fr)",
+            gap: 12,
+          }}
+        >
+          {champion.skins.map((skin) => (
+            <div key={skin.id} style={{ textAlign: "center", fontSize: 12 }}>
+              {/* Loading screen art is 308x560 */}
+              <div
+                role="img"
+                aria-label={skin.name}
+                style={{
+                  width: "100%",
+                  aspectRatio: "308 / 560",
+                  borderRadius: 4,
+                  backgroundImage: `url(${DDRAGON_BASE}/cdn/img/champion/loading/${champion.id}_${skin.num}.jpg)`,
+                  backgroundSize: "cover",
+                }}
+              />
+              {/* The base skin is called "default" in Data Dragon */}
+              {skin.num === 0 ? champion.name : skin.name}
+            </div>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,40 +1,184 @@
 "use client";
 
 // Import React hooks for state management
-import React, { useState, useEffect } from "react";
-// Import Next.js Link component
+import React, { Suspense, useState, useEffect, useRef } from "react";
+// Import Next.js Link component and URL helpers
 import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+// Import Data Dragon helpers for the current patch
+import { getDataUrl } from "../utils/dataDragon";
+import { useDataDragonVersion } from "../utils/useDataDragonVersion";
+// Import the champion data and overlay shapes and the filter controls
+import type { ChampionData } from "../utils/championMapping";
+import ChampionOverlayForm from "../components/ChampionOverlayForm";
+import { parseRiotIdSegment } from "../utils/playerRoutes";
+import type { ChampionOverlayEntry } from "../utils/championOverlay";
+import ChampionFilters, {
+  ChampionFilterValues,
+  filterChampions,
+  filtersFromSearchParams,
+  filtersToQueryString,
+} from "../components/ChampionFilters";
 
-// Interface for champion data
-interface Champion {
-  id: string;
-  name: string;
-  title: string;
-  image: {
-    full: string;
-  };
-}
+// Delay before the typed search text is written to the URL
+const SEARCH_DEBOUNCE_MS = 300;
 
-// Main Champions page component
+// useSearchParams needs a Suspense boundary when the page is prerendered
 export default function ChampionsPage() {
+  return (
+    <Suspense>
+      <ChampionsBrowser />
+    </Suspense>
+  );
+}
+
+// Champions grid with search, filters and sorting kept in the URL
+function ChampionsBrowser() {
   // State for storing champion data
-  const [champions, setChampions] = useState<Champion[]>([]);
+  const [champions, setChampions] = useState<ChampionData[]>([]);
   // Loading state
   const [loading, setLoading] = useState(true);
   // Error state
   const [error, setError] = useState<string | null>(null);
+  // Current Data Dragon version (null while it loads)
+  const version = useDataDragonVersion();
+
+  // Filter state lives in the query string so filtered views can be shared
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const urlFilters = filtersFromSearchParams(searchParams);
+
+  // The search text is kept locally and written to the URL after a pause,
+  // so typing doesn't navigate on every keystroke
+  const [search, setSearch] = useState(urlFilters.q);
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const filters = { ...urlFilters, q: search };
 
-  // Fetch champion data when component mounts
+  // Replace (not push) so filter changes don't flood history
+  const replaceUrl = (values: ChampionFilterValues) => {
+    const query = filtersToQueryString(values);
+    router.replace(query ? `/champions?${query}` : "/champions", {
+      scroll: false,
+    });
+  };
+
+  const handleFiltersChange = (values: ChampionFilterValues) => {
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    searchTimer.current = null;
+    setSearch(values.q);
+
+    // Only the search text waits - other controls update the URL right away
+    const onlySearchChanged =
+      values.q !== search &&
+      filtersToQueryString({ ...values, q: "" }) ===
+        filtersToQueryString({ ...filters, q: "" });
+    if (!onlySearchChanged) {
+      replaceUrl(values);
+      return;
+    }
+    searchTimer.current = setTimeout(() => {
+      searchTimer.current = null;
+      replaceUrl(values);
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  // Follow search changes made outside the input (e.g. back/forward or the
+  // nav link), unless a typed search is still waiting to be written
+  const urlSearch = urlFilters.q;
   useEffect(() => {
+    if (!searchTimer.current) setSearch(urlSearch);
+  }, [urlSearch]);
+
+  // Drop a pending search update when leaving the page
+  useEffect(
+    () => () => {
+      if (searchTimer.current) clearTimeout(searchTimer.current);
+    },
+    []
+  );
+
+  // Personal overlay for the Riot ID in the URL, keyed by champion key
+  const overlayPlayer = filters.player
+    ? parseRiotIdSegment(filters.player)
+    : null;
+  const [overlay, setOverlay] = useState<{
+    [championKey: string]: ChampionOverlayEntry;
+  } | null>(null);
+  const [overlayLoading, setOverlayLoading] = useState(false);
+  const [overlayError, setOverlayError] = useState<string | null>(null);
+
+  // Attach or remove the overlay player, keeping the other filters
+  const handleOverlayChange = (
+    player: { gameName: string; tagLine: string; platform: string } | null
+  ) => {
+    handleFiltersChange({
+      ...filters,
+      player: player ? `${player.gameName}-${player.tagLine}` : "",
+      platform: player ? player.platform : "",
+      // The overlay sort orders need overlay data
+      sort:
+        player || !["mastery", "unplayed"].includes(filters.sort)
+          ? filters.sort
+          : "name",
+    });
+  };
+
+  // Load the overlay whenever the attached player changes
+  const overlayGameName = overlayPlayer?.gameName;
+  const overlayTagLine = overlayPlayer?.tagLine;
+  useEffect(() => {
+    setOverlay(null);
+    setOverlayError(null);
+    setOverlayLoading(false);
+    if (!overlayGameName || !overlayTagLine) return;
+
+    // Ignore results from a load that was superseded
+    let cancelled = false;
+    const loadOverlay = async () => {
+      setOverlayLoading(true);
+      try {
+        const res = await fetch("/api/lol-champion-overlay", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            gameName: overlayGameName,
+            tagLine: overlayTagLine,
+            platform: filters.platform || undefined,
+          }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setOverlayError(data.error || "Failed to load player stats");
+          return;
+        }
+        setOverlay(data.champions);
+      } catch {
+        if (!cancelled) setOverlayError("Failed to load player stats");
+      } finally {
+        if (!cancelled) setOverlayLoading(false);
+      }
+    };
+
+    loadOverlay();
+    return () => {
+      // A superseded load never reaches its finally block, so clear it here
+      cancelled = true;
+      setOverlayLoading(false);
+    };
+  }, [overlayGameName, overlayTagLine, filters.platform]);
+
+  // Fetch champion data once the current version is known
+  useEffect(() => {
+    if (!version) return;
+
     const fetchChampions = async () => {
       try {
         setLoading(true);
         setError(null);
 
         // Fetch champion data from Data Dragon API
-        const response = await fetch(
-          "https://ddragon.leagueoflegends.com/cdn/14.15.1/data/en_US/champion.json"
-        );
+        const response = await fetch(getDataUrl(version, "champion.json"));
 
         if (!response.ok) {
           throw new Error("Failed to fetch champion data");
@@ -43,21 +187,18 @@ export default function ChampionsPage() {
         const data = await response.json();
 
         // Convert champion data to array format
-        const championsArray = Object.values(data.data).map(
-          (champion: unknown) => ({
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            id: (champion as any).id,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            name: (champion as any).name,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            title: (champion as any).title,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            image: (champion as any).image,
-          })
-        );
-
-        // Sort champions alphabetically by name
-        championsArray.sort((a, b) => a.name.localeCompare(b.name));
+        const championsArray = Object.values(
+          data.data as { [id: string]: ChampionData }
+        ).map((champion) => ({
+          id: champion.id,
+          key: champion.key,
+          name: champion.name,
+          title: champion.title,
+          image: champion.image,
+          tags: champion.tags,
+          partype: champion.partype,
+          info: champion.info,
+        }));
 
         setChampions(championsArray);
       } catch (err) {
@@ -69,7 +210,40 @@ export default function ChampionsPage() {
     };
 
     fetchChampions();
-  }, []);
+  }, [version]);
+
+  // Champions matching the current filters, in the chosen order
+  const visibleChampions = filterChampions(
+    champions,
+    filters,
+    overlay ?? undefined
+  );
+  // Resource types offered in the filter (some champions have none)
+  const resources = Array.from(
+    new Set(champions.map((champion) => champion.partype).filter(Boolean))
+  ).sort();
+
+  // Overlay lines for one champion card
+  const renderOverlay = (entry: ChampionOverlayEntry | undefined) => {
+    if (!entry || !entry.lastPlayTime) return <div>Never played</div>;
+
+    return (
+      <>
+        <div>
+          Mastery {entry.championLevel} &middot;{" "}
+          {entry.championPoints.toLocaleString()} pts
+        </div>
+        <div>
+          {entry.games > 0
+            ? `${entry.games} recent games · ${entry.winrate}% WR`
+            : "No recent games"}
+        </div>
+        <div>
+          Last played {new Date(entry.lastPlayTime).toLocaleDateString()}
+        </div>
+      </>
+    );
+  };
 
   return (
     <main
@@ -99,6 +273,7 @@ export default function ChampionsPage() {
         <Link
           href="/champions"
           style={{
+            marginRight: 16,
             padding: "8px 16px",
             backgroundColor: "#28a745",
             color: "white",
@@ -109,6 +284,19 @@ export default function ChampionsPage() {
         >
           Champions
         </Link>
+        <Link
+          href="/compare"
+          style={{
+            padding: "8px 16px",
+            backgroundColor: "#6f42c1",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Compare
+        </Link>
       </div>
 
       {/* Page title */}
@@ -116,6 +304,31 @@ export default function ChampionsPage() {
         League of Legends Champions
       </h1>
 
+      {/* Riot ID for the personal overlay */}
+      <ChampionOverlayForm
+        key={filters.player}
+        gameName={overlayPlayer?.gameName ?? ""}
+        tagLine={overlayPlayer?.tagLine ?? ""}
+        platform={filters.platform}
+        loading={overlayLoading}
+        onChange={handleOverlayChange}
+      />
+      {overlayError && (
+        <div
+          style={{ textAlign: "center", color: "#dc3545", marginBottom: 16 }}
+        >
+          {overlayError}
+        </div>
+      )}
+
+      {/* Search, filters and sorting */}
+      <ChampionFilters
+        values={filters}
+        resources={resources}
+        hasOverlay={overlay !== null}
+        onChange={handleFiltersChange}
+      />
+
       {/* Loading state */}
       {loading && (
         <div style={{ textAlign: "center", padding: 40 }}>
@@ -147,15 +360,19 @@ export default function ChampionsPage() {
         <div
           style={{
             display: "grid",
-            gridTemplateColumns: "repeat(5, 1fr)",
+            gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
             gap: 16,
             padding: 16,
           }}
         >
-          {champions.map((champion) => (
-            <div
+          {visibleChampions.map((champion) => (
+            // Each card links to the champion's detail page
+            <Link
               key={champion.id}
+              href={`/champions/${champion.id}`}
               style={{
+                display: "block",
+                textDecoration: "none",
                 border: "1px solid #ddd",
                 borderRadius: 8,
                 padding: 16,
@@ -227,8 +444,24 @@ export default function ChampionsPage() {
                 >
                   {champion.title}
                 </div>
+
+                {/* Personal overlay: mastery and recent results */}
+                {overlay && (
+                  <div
+                    style={{
+                      marginTop: 8,
+                      padding: 4,
+                      fontSize: 11,
+                      color: "#fff",
+                      backgroundColor: "rgba(0,0,0,0.6)",
+                      borderRadius: 4,
+                    }}
+                  >
+                    {renderOverlay(overlay[champion.key])}
+                  </div>
+                )}
               </div>
-            </div>
+            </Link>
           ))}
         </div>
       )}
@@ -243,7 +476,9 @@ export default function ChampionsPage() {
             fontSize: 14,
           }}
         >
-          Total Champions: {champions.length}
+          {visibleChampions.length === champions.length
+            ? `Total Champions: ${champions.length}`
+            : `Showing ${visibleChampions.length} of ${champions.length} champions`}
         </div>
       )}
     </main>
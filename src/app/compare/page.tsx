@@ -0,0 +1,481 @@
+"use client";
+
+// Import React hooks for state management
+import React, { Suspense, useEffect, useState } from "react";
+// Import Next.js Link component and URL helpers
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+// Import platform and profile URL helpers
+import { DEFAULT_PLATFORM, PLATFORMS } from "../utils/regions";
+import { getPlayerPath, parseRiotIdSegment } from "../utils/playerRoutes";
+import { ROLE_LABELS } from "../utils/roles";
+
+// Number of players that can be compared at once
+const MIN_PLAYERS = 2;
+const MAX_PLAYERS = 5;
+
+// Interface for one compared player from /api/lol-compare
+interface Comparison {
+  gameName: string;
+  tagLine: string;
+  platform: string;
+  rank: {
+    tier: string;
+    rank: string;
+    leaguePoints: number;
+    ladderLp: number;
+  } | null;
+  games: number;
+  winrate: string | null;
+  kda: string | null;
+  csPerMinute: string | null;
+  visionPerMinute: string | null;
+  championPool: {
+    uniqueChampions: number;
+    top: { championName: string; games: number; wins: number }[];
+  };
+  roles: { [role: string]: number };
+}
+
+// Interface for one row of the input form
+interface PlayerInput {
+  riotId: string; // "gameName#tagLine"
+  platform: string;
+}
+
+// Players are kept in the URL as repeated p={platform}/{gameName}-{tagLine}
+const parsePlayers = (values: string[]) =>
+  values
+    .map((value) => {
+      const separator = value.indexOf("/");
+      const parsed = parseRiotIdSegment(value.slice(separator + 1));
+      return parsed && separator > 0
+        ? { platform: value.slice(0, separator), ...parsed }
+        : null;
+    })
+    .filter(
+      (
+        player
+      ): player is { platform: string; gameName: string; tagLine: string } =>
+        player !== null
+    )
+    .slice(0, MAX_PLAYERS);
+
+const inputStyle: React.CSSProperties = {
+  padding: 8,
+  border: "1px solid #ccc",
+  borderRadius: 4,
+  fontSize: 14,
+};
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
+export default function ComparePage() {
+  return (
+    <Suspense>
+      <CompareView />
+    </Suspense>
+  );
+}
+
+// Side-by-side comparison of 2-5 players
+function CompareView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Riot IDs cannot contain commas, so the joined values identify the players
+  const urlKey = searchParams.getAll("p").join(",");
+
+  // Form rows, prefilled from the URL
+  const [inputs, setInputs] = useState<PlayerInput[]>(() => {
+    const rows = parsePlayers(searchParams.getAll("p")).map((player) => ({
+      riotId: `${player.gameName}#${player.tagLine}`,
+      platform: player.platform,
+    }));
+    while (rows.length < MIN_PLAYERS) {
+      rows.push({ riotId: "", platform: DEFAULT_PLATFORM });
+    }
+    return rows;
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [comparisons, setComparisons] = useState<Comparison[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Run the comparison whenever the players in the URL change
+  useEffect(() => {
+    const players = parsePlayers(urlKey ? urlKey.split(",") : []);
+    if (players.length < MIN_PLAYERS) return;
+
+    // Ignore results from a comparison that was superseded
+    let cancelled = false;
+    const loadComparison = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/lol-compare", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ players }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(data.error || "Failed to compare players");
+          setComparisons(null);
+          return;
+        }
+        setComparisons(data.players);
+      } catch {
+        if (!cancelled) setError("Failed to compare players");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadComparison();
+    return () => {
+      cancelled = true;
+    };
+  }, [urlKey]);
+
+  const updateInput = (idx: number, field: keyof PlayerInput, value: string) =>
+    setInputs(
+      inputs.map((input, i) =>
+        i === idx ? { ...input, [field]: value } : input
+      )
+    );
+
+  // Put the players in the URL, which starts the comparison
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+    for (const input of inputs) {
+      if (!input.riotId.trim()) continue;
+      const separator = input.riotId.lastIndexOf("#");
+      if (separator <= 0 || separator === input.riotId.length - 1) {
+        setFormError(`"${input.riotId}" is not a Riot ID like pikachu#001`);
+        return;
+      }
+      const gameName = input.riotId.slice(0, separator).trim();
+      const tagLine = input.riotId.slice(separator + 1).trim();
+      params.append("p", `${input.platform}/${gameName}-${tagLine}`);
+    }
+    if (params.getAll("p").length < MIN_PLAYERS) {
+      setFormError(`Enter at least ${MIN_PLAYERS} Riot IDs`);
+      return;
+    }
+    setFormError(null);
+    router.push(`/compare?${params}`);
+  };
+
+  // Index of the leading player for a numeric metric (null values never lead)
+  const leaderOf = (value: (c: Comparison) => number | null) => {
+    if (!comparisons) return -1;
+    let best = -1;
+    comparisons.forEach((c, idx) => {
+      const v = value(c);
+      if (v === null) return;
+      const bestValue = best >= 0 ? value(comparisons[best]) : null;
+      if (bestValue === null || v > bestValue) best = idx;
+    });
+    return best;
+  };
+
+  const num = (value: string | null) => (value === null ? null : Number(value));
+
+  // Table rows: label, cell renderer and the leader of the metric
+  const rows: {
+    label: string;
+    render: (c: Comparison) => React.ReactNode;
+    leader: number;
+  }[] = comparisons
+    ? [
+        {
+          label: "Rank (Solo/Duo)",
+          render: (c) =>
+            c.rank
+              ? `${c.rank.tier} ${c.rank.rank} ${c.rank.leaguePoints} LP`
+              : "Unranked",
+          leader: leaderOf((c) => c.rank?.ladderLp ?? null),
+        },
+        {
+          label: "Games analysed",
+          render: (c) => c.games,
+          leader: -1,
+        },
+        {
+          label: "Winrate",
+          render: (c) => (c.winrate ? `${c.winrate}%` : "-"),
+          leader: leaderOf((c) => num(c.winrate)),
+        },
+        {
+          label: "KDA",
+          render: (c) => c.kda ?? "-",
+          leader: leaderOf((c) => num(c.kda)),
+        },
+        {
+          label: "CS/min",
+          render: (c) => c.csPerMinute ?? "-",
+          leader: leaderOf((c) => num(c.csPerMinute)),
+        },
+        {
+          label: "Vision/min",
+          render: (c) => c.visionPerMinute ?? "-",
+          leader: leaderOf((c) => num(c.visionPerMinute)),
+        },
+        {
+          label: "Champion pool",
+          render: (c) => (
+            <>
+              <div>{c.championPool.uniqueChampions} champions</div>
+              {c.championPool.top.map((champ) => (
+                <div key={champ.championName} style={{ fontSize: 12 }}>
+                  {champ.championName}: {champ.games} games,{" "}
+                  {((champ.wins / champ.games) * 100).toFixed(0)}% WR
+                </div>
+              ))}
+            </>
+          ),
+          leader: leaderOf((c) => c.championPool.uniqueChampions),
+        },
+        ...Object.entries(ROLE_LABELS).map(([role, label]) => ({
+          label: `${label} games`,
+          render: (c: Comparison) =>
+            c.games > 0
+              ? `${c.roles[role] ?? 0} (${(
+                  ((c.roles[role] ?? 0) / c.games) *
+                  100
+                ).toFixed(0)}%)`
+              : "-",
+          leader: leaderOf((c) => c.roles[role] ?? 0),
+        })),
+      ]
+    : [];
+
+  const cellStyle: React.CSSProperties = {
+    padding: 8,
+    borderBottom: "1px solid #ddd",
+    textAlign: "center",
+    verticalAlign: "top",
+  };
+
+  return (
+    <main
+      style={{
+        maxWidth: 1400,
+        margin: "0 auto",
+        padding: 32,
+        fontFamily: "Arial, sans-serif",
+      }}
+    >
+      {/* Navigation */}
+      <div style={{ textAlign: "center", marginBottom: 24 }}>
+        <Link
+          href="/"
+          style={{
+            marginRight: 16,
+            padding: "8px 16px",
+            backgroundColor: "#007bff",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Match History
+        </Link>
+        <Link
+          href="/champions"
+          style={{
+            marginRight: 16,
+            padding: "8px 16px",
+            backgroundColor: "#28a745",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Champions
+        </Link>
+        <Link
+          href="/compare"
+          style={{
+            padding: "8px 16px",
+            backgroundColor: "#6f42c1",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Compare
+        </Link>
+      </div>
+
+      {/* Page title */}
+      <h1 style={{ textAlign: "center", color: "#333", marginBottom: 32 }}>
+        Compare Players
+      </h1>
+
+      {/* Riot ID inputs */}
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          marginBottom: 32,
+          padding: 24,
+          border: "1px solid #ddd",
+          borderRadius: 8,
+          color: "#333",
+        }}
+      >
+        {inputs.map((input, idx) => (
+          <div key={idx} style={{ display: "flex", gap: 8, marginBottom: 8 }}>
+            <input
+              type="text"
+              value={input.riotId}
+              onChange={(e) => updateInput(idx, "riotId", e.target.value)}
+              placeholder={`Player ${idx + 1} Riot ID, e.g. pikachu#001`}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <select
+              value={input.platform}
+              onChange={(e) => updateInput(idx, "platform", e.target.value)}
+              style={inputStyle}
+            >
+              {PLATFORMS.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.id.toUpperCase()}
+                </option>
+              ))}
+            </select>
+            {inputs.length > MIN_PLAYERS && (
+              <button
+                type="button"
+                onClick={() => setInputs(inputs.filter((_, i) => i !== idx))}
+                style={{ ...inputStyle, cursor: "pointer" }}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+
+        <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
+          {inputs.length < MAX_PLAYERS && (
+            <button
+              type="button"
+              onClick={() =>
+                setInputs([
+                  ...inputs,
+                  { riotId: "", platform: DEFAULT_PLATFORM },
+                ])
+              }
+              style={{
+                padding: "8px 16px",
+                backgroundColor: "#6c757d",
+                color: "white",
+                border: "none",
+                borderRadius: 4,
+                cursor: "pointer",
+              }}
+            >
+              Add player
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            style={{
+              flex: 1,
+              padding: 8,
+              backgroundColor: loading ? "#ccc" : "#007bff",
+              color: "white",
+              border: "none",
+              borderRadius: 4,
+              cursor: loading ? "not-allowed" : "pointer",
+              fontSize: 16,
+            }}
+          >
+            {loading ? "Comparing..." : "Compare"}
+          </button>
+        </div>
+        {formError && (
+          <div style={{ color: "#dc3545", marginTop: 8 }}>{formError}</div>
+        )}
+      </form>
+
+      {/* Error message display */}
+      {error && (
+        <div
+          style={{
+            color: "red",
+            backgroundColor: "#ffe6e6",
+            padding: 12,
+            borderRadius: 4,
+            marginBottom: 16,
+            border: "1px solid #ff9999",
+            textAlign: "center",
+          }}
+        >
+          Error: {error}
+        </div>
+      )}
+
+      {/* Comparison table - the leader of each metric is highlighted */}
+      {comparisons && !loading && (
+        <div style={{ overflowX: "auto" }}>
+          <table
+            style={{ width: "100%", borderCollapse: "collapse", color: "#333" }}
+          >
+            <thead>
+              <tr>
+                <th style={cellStyle} />
+                {comparisons.map((c) => (
+                  <th
+                    key={`${c.platform}/${c.gameName}#${c.tagLine}`}
+                    style={cellStyle}
+                  >
+                    <Link
+                      href={getPlayerPath(c.platform, c.gameName, c.tagLine)}
+                      style={{ color: "#0066cc" }}
+                    >
+                      {c.gameName}
+                      <span style={{ color: "#888" }}>#{c.tagLine}</span>
+                    </Link>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label}>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>
+                    {row.label}
+                  </th>
+                  {comparisons.map((c, idx) => (
+                    <td
+                      key={idx}
+                      style={{
+                        ...cellStyle,
+                        backgroundColor:
+                          idx === row.leader ? "#d4edda" : "transparent",
+                        fontWeight: idx === row.leader ? "bold" : "normal",
+                      }}
+                    >
+                      {row.render(c)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ fontSize: 12, color: "#888", marginTop: 8 }}>
+            Stats are from each player&apos;s last 20 matches on Summoner&apos;s
+            Rift, remakes excluded. The leader of each row is highlighted.
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import item helpers and build types
+import { ItemData } from "../utils/itemMapping";
+import type { BuildGroup } from "../utils/buildOrder";
+import ItemSlot from "./ItemSlot";
+
+const SKILL_KEYS = ["Q", "W", "E", "R"];
+
+const formatTime = (ms: number) =>
+  `${Math.floor(ms / 60000)}:${Math.floor((ms % 60000) / 1000)
+    .toString()
+    .padStart(2, "0")}`;
+
+// Item build path (one block per back) and the skill order grid
+export default function BuildOrder({
+  itemBuild,
+  skillOrder,
+  items,
+  version,
+}: {
+  itemBuild: BuildGroup[];
+  skillOrder: number[]; // Skill slots, 1 = Q ... 4 = R
+  items: { [key: string]: ItemData };
+  version: string;
+}) {
+  return (
+    <div style={{ color: "#000", fontSize: "12px" }}>
+      {/* Build path */}
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 6,
+          marginBottom: 16,
+        }}
+      >
+        {itemBuild.map((group, groupIdx) => (
+          <React.Fragment key={groupIdx}>
+            {groupIdx > 0 && <span style={{ color: "#999" }}>▶</span>}
+            <div
+              style={{
+                padding: 4,
+                backgroundColor: "#f8f9fa",
+                border: "1px solid #ddd",
+                borderRadius: 4,
+              }}
+            >
+              <div style={{ display: "flex", gap: 2 }}>
+                {group.entries.map((entry, idx) => (
+                  // Sold items are dimmed and struck through
+                  <div
+                    key={idx}
+                    style={{
+                      position: "relative",
+                      opacity: entry.action === "sell" ? 0.5 : 1,
+                    }}
+                  >
+                    <ItemSlot
+                      itemId={entry.itemId}
+                      items={items}
+                      version={version}
+                      size={28}
+                    />
+                    {entry.action === "sell" && (
+                      <span
+                        title="Sold"
+                        style={{
+                          position: "absolute",
+                          inset: 0,
+                          display: "flex",
+                          alignItems: "center",
+                          justifyContent: "center",
+                          color: "#dc3545",
+                          fontWeight: "bold",
+                          fontSize: 18,
+                        }}
+                      >
+                        ✕
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div style={{ textAlign: "center", color: "#666", marginTop: 2 }}>
+                {formatTime(group.timestamp)}
+              </div>
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {/* Skill order grid - one row per ability, one column per level */}
+      {skillOrder.length > 0 && (
+        <table style={{ borderCollapse: "collapse" }}>
+          <tbody>
+            {SKILL_KEYS.map((key, slotIdx) => (
+              <tr key={key}>
+                <th style={{ padding: "2px 6px", textAlign: "left" }}>{key}</th>
+                {skillOrder.map((slot, levelIdx) => (
+                  <td
+                    key={levelIdx}
+                    style={{
+                      width: 20,
+                      height: 20,
+                      textAlign: "center",
+                      border: "1px solid #ddd",
+                      backgroundColor:
+                        slot === slotIdx + 1
+                          ? key === "R"
+                            ? "#ffc107"
+                            : "#0066cc"
+                          : "#f8f9fa",
+                      color: "white",
+                      fontWeight: "bold",
+                    }}
+                  >
+                    {slot === slotIdx + 1 ? levelIdx + 1 : ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import the champion data and overlay shapes and release dates
+import type { ChampionData } from "../utils/championMapping";
+import { getChampionReleaseDate } from "../utils/championReleases";
+import type { ChampionOverlayEntry } from "../utils/championOverlay";
+
+// Interface for the champions page filter state - "" means "any"
+// Every field is mirrored in the URL query string under the same name
+export interface ChampionFilterValues {
+  q: string; // Search text, matched against name and title
+  tag: string; // Class, e.g. "Mage"
+  resource: string; // partype, e.g. "Energy"
+  sort: string; // One of SORT_OPTIONS or OVERLAY_SORT_OPTIONS
+  player: string; // Riot ID overlay as "{gameName}-{tagLine}", "" for none
+  platform: string; // Platform of the overlay player
+}
+
+export const EMPTY_CHAMPION_FILTERS: ChampionFilterValues = {
+  q: "",
+  tag: "",
+  resource: "",
+  sort: "name",
+  player: "",
+  platform: "",
+};
+
+// Classes offered in the class filter (Data Dragon champion tags)
+const TAG_OPTIONS = [
+  "Assassin",
+  "Fighter",
+  "Mage",
+  "Marksman",
+  "Support",
+  "Tank",
+];
+
+// Sort orders offered in the sort select
+const SORT_OPTIONS = [
+  { id: "name", label: "Name" },
+  { id: "difficulty", label: "Difficulty" },
+  { id: "release", label: "Newest first" },
+];
+
+// Extra sort orders offered while a player overlay is attached
+const OVERLAY_SORT_OPTIONS = [
+  { id: "mastery", label: "Mastery points" },
+  { id: "unplayed", label: "Never played first" },
+];
+
+// Read the filter state from URL query parameters
+export function filtersFromSearchParams(params: URLSearchParams) {
+  const values = { ...EMPTY_CHAMPION_FILTERS };
+  (Object.keys(values) as (keyof ChampionFilterValues)[]).forEach((field) => {
+    const value = params.get(field);
+    if (value !== null) values[field] = value;
+  });
+  return values;
+}
+
+// Write the filter state to a query string, leaving out default values
+export function filtersToQueryString(values: ChampionFilterValues) {
+  const params = new URLSearchParams();
+  (Object.keys(values) as (keyof ChampionFilterValues)[]).forEach((field) => {
+    if (values[field] !== EMPTY_CHAMPION_FILTERS[field]) {
+      params.set(field, values[field]);
+    }
+  });
+  return params.toString();
+}
+
+// Apply the filters and sort order to a champion list
+// The overlay, if given, is used by the mastery and never-played orders
+export function filterChampions(
+  champions: ChampionData[],
+  values: ChampionFilterValues,
+  overlay?: { [championKey: string]: ChampionOverlayEntry }
+) {
+  const search = values.q.trim().toLowerCase();
+
+  const filtered = champions.filter(
+    (champion) =>
+      (!search ||
+        champion.name.toLowerCase().includes(search) ||
+        champion.title.toLowerCase().includes(search)) &&
+      (!values.tag || champion.tags.includes(values.tag)) &&
+      (!values.resource || champion.partype === values.resource)
+  );
+
+  const points = (champion: ChampionData) =>
+    overlay?.[champion.key]?.championPoints ?? 0;
+  const played = (champion: ChampionData) =>
+    overlay?.[champion.key]?.lastPlayTime ? 1 : 0;
+  // Champions missing from the release list are newer than all of it
+  const released = (champion: ChampionData) =>
+    getChampionReleaseDate(champion.id) ?? "9999-12-31";
+
+  return filtered.sort((a, b) => {
+    if (overlay && values.sort === "mastery") {
+      return points(b) - points(a) || a.name.localeCompare(b.name);
+    }
+    if (overlay && values.sort === "unplayed") {
+      return played(a) - played(b) || a.name.localeCompare(b.name);
+    }
+    if (values.sort === "difficulty") {
+      return (
+        b.info.difficulty - a.info.difficulty || a.name.localeCompare(b.name)
+      );
+    }
+    if (values.sort === "release") {
+      return (
+        released(b).localeCompare(released(a)) || a.name.localeCompare(b.name)
+      );
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: 6,
+  border: "1px solid #ccc",
+  borderRadius: 4,
+  fontSize: 14,
+};
+
+// Search, filter and sort controls shown above the champions grid
+export default function ChampionFilters({
+  values,
+  resources,
+  hasOverlay,
+  onChange,
+}: {
+  values: ChampionFilterValues;
+  resources: string[]; // Resource types present in the champion data
+  hasOverlay: boolean; // Whether the overlay sort orders are available
+  onChange: (values: ChampionFilterValues) => void;
+}) {
+  // Update one field and report the whole new filter state
+  const update = (field: keyof ChampionFilterValues, value: string) =>
+    onChange({ ...values, [field]: value });
+
+  const isFiltered = !!(values.q || values.tag || values.resource);
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        gap: 8,
+        alignItems: "center",
+        justifyContent: "center",
+        marginBottom: 16,
+        padding: 12,
+        backgroundColor: "#f8f9fa",
+        border: "1px solid #ddd",
+        borderRadius: 8,
+        color: "#333",
+        fontSize: 14,
+      }}
+    >
+      <input
+        type="search"
+        placeholder="Search champions..."
+        value={values.q}
+        onChange={(e) => update("q", e.target.value)}
+        style={{ ...inputStyle, width: 220 }}
+      />
+
+      <select
+        value={values.tag}
+        onChange={(e) => update("tag", e.target.value)}
+        style={inputStyle}
+      >
+        <option value="">All classes</option>
+        {TAG_OPTIONS.map((tag) => (
+          <option key={tag} value={tag}>
+            {tag}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={values.resource}
+        onChange={(e) => update("resource", e.target.value)}
+        style={inputStyle}
+      >
+        <option value="">All resources</option>
+        {resources.map((resource) => (
+          <option key={resource} value={resource}>
+            {resource}
+          </option>
+        ))}
+      </select>
+
+      <label>
+        Sort by{" "}
+        <select
+          value={values.sort}
+          onChange={(e) => update("sort", e.target.value)}
+          style={inputStyle}
+        >
+          {[...SORT_OPTIONS, ...(hasOverlay ? OVERLAY_SORT_OPTIONS : [])].map(
+            (option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            )
+          )}
+        </select>
+      </label>
+
+      {isFiltered && (
+        <button
+          type="button"
+          onClick={() =>
+            // Keep the sort and the overlay player - only the filters reset
+            onChange({ ...values, q: "", tag: "", resource: "" })
+          }
+          style={{
+            padding: "6px 12px",
+            backgroundColor: "#6c757d",
+            color: "white",
+            border: "none",
+            borderRadius: 4,
+            cursor: "pointer",
+          }}
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
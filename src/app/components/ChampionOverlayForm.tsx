@@ -0,0 +1,125 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useState } from "react";
+// Import the list of selectable platforms
+import { DEFAULT_PLATFORM, PLATFORMS } from "../utils/regions";
+
+const inputStyle: React.CSSProperties = {
+  padding: 6,
+  border: "1px solid #ccc",
+  borderRadius: 4,
+  fontSize: 14,
+};
+
+// Form attaching a Riot ID to the champions page for the personal overlay
+// Reports the Riot ID as gameName/tagLine, or null when it is removed
+export default function ChampionOverlayForm({
+  gameName,
+  tagLine,
+  platform,
+  loading,
+  onChange,
+}: {
+  gameName: string;
+  tagLine: string;
+  platform: string;
+  loading: boolean;
+  onChange: (
+    player: { gameName: string; tagLine: string; platform: string } | null
+  ) => void;
+}) {
+  // Riot ID as typed, e.g. "pikachu#001"
+  const [riotId, setRiotId] = useState(
+    gameName ? `${gameName}#${tagLine}` : ""
+  );
+  const [selectedPlatform, setSelectedPlatform] = useState(
+    platform || DEFAULT_PLATFORM
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const separator = riotId.lastIndexOf("#");
+    if (separator <= 0 || separator === riotId.length - 1) {
+      setError("Enter a Riot ID like pikachu#001");
+      return;
+    }
+    setError(null);
+    onChange({
+      gameName: riotId.slice(0, separator).trim(),
+      tagLine: riotId.slice(separator + 1).trim(),
+      platform: selectedPlatform,
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        gap: 8,
+        alignItems: "center",
+        justifyContent: "center",
+        marginBottom: 16,
+        color: "#333",
+        fontSize: 14,
+      }}
+    >
+      <span style={{ fontWeight: "bold" }}>Your stats:</span>
+      <input
+        type="text"
+        value={riotId}
+        onChange={(e) => setRiotId(e.target.value)}
+        placeholder="Riot ID, e.g. pikachu#001"
+        style={{ ...inputStyle, width: 220 }}
+      />
+      <select
+        value={selectedPlatform}
+        onChange={(e) => setSelectedPlatform(e.target.value)}
+        style={inputStyle}
+      >
+        {PLATFORMS.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.id.toUpperCase()}
+          </option>
+        ))}
+      </select>
+      <button
+        type="submit"
+        disabled={loading}
+        style={{
+          padding: "6px 12px",
+          backgroundColor: loading ? "#ccc" : "#007bff",
+          color: "white",
+          border: "none",
+          borderRadius: 4,
+          cursor: loading ? "not-allowed" : "pointer",
+        }}
+      >
+        {loading ? "Loading..." : "Show"}
+      </button>
+      {gameName && (
+        <button
+          type="button"
+          onClick={() => {
+            setRiotId("");
+            onChange(null);
+          }}
+          style={{
+            padding: "6px 12px",
+            backgroundColor: "#6c757d",
+            color: "white",
+            border: "none",
+            borderRadius: 4,
+            cursor: "pointer",
+          }}
+        >
+          Remove
+        </button>
+      )}
+      {error && <span style={{ color: "#dc3545" }}>{error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,320 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useState } from "react";
+// Import Data Dragon, queue and role helpers
+import { getImageUrl } from "../utils/dataDragon";
+import { getGameModeName } from "../utils/queues";
+import { ROLE_LABELS } from "../utils/roles";
+import { useDataDragonVersion } from "../utils/useDataDragonVersion";
+import type { ChampionWinrate } from "../utils/winrates";
+
+// Sample sizes offered - "season" is every match since the season started
+const SAMPLE_OPTIONS: { value: number | "season"; label: string }[] = [
+  { value: 20, label: "Last 20" },
+  { value: 50, label: "Last 50" },
+  { value: 100, label: "Last 100" },
+  { value: "season", label: "This season" },
+];
+
+// Matches added to the season sample per request, so the table fills in
+// while older matches are still being fetched
+const SEASON_STEP = 100;
+
+// Queues offered in the sample (Summoner's Rift 5v5 and ARAM)
+const QUEUE_OPTIONS = [420, 440, 400, 490, 450];
+
+// Interface for a winrate table and its per-role variants
+export interface WinrateTables {
+  winrates: ChampionWinrate[];
+  winratesByRole: { [role: string]: ChampionWinrate[] }; // Roles without games are absent
+}
+
+// Champion winrate table with a configurable sample
+// Starts from the default table in the player stats (last 20 Ranked Solo/Duo
+// games, no remakes) and rebuilds it via /api/lol-winrates on Apply
+export default function ChampionWinrates({
+  gameName,
+  tagLine,
+  platform,
+  initial,
+}: {
+  gameName: string;
+  tagLine: string;
+  platform: string;
+  initial: WinrateTables;
+}) {
+  // Sample settings - applied only when the table is rebuilt
+  const [count, setCount] = useState<number | "season">(20);
+  const [queues, setQueues] = useState<number[]>([420]);
+  const [includeRemakes, setIncludeRemakes] = useState(false);
+  // Role the table is filtered to ("" for all roles)
+  const [role, setRole] = useState("");
+
+  const [tables, setTables] = useState<WinrateTables>(initial);
+  const [matchesAnalyzed, setMatchesAnalyzed] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Matches in the season table so far while older ones are still loading
+  const [seasonProgress, setSeasonProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Current Data Dragon version for the champion icons
+  const version = useDataDragonVersion();
+
+  const toggleQueue = (queue: number) =>
+    setQueues(
+      queues.includes(queue)
+        ? queues.filter((q) => q !== queue)
+        : [...queues, queue]
+    );
+
+  // Rebuild the table from the chosen sample
+  // A season is requested SEASON_STEP matches further back at a time, showing
+  // each partial table until the server reports the whole season loaded
+  const handleApply = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      for (let limit = SEASON_STEP; ; limit += SEASON_STEP) {
+        const res = await fetch("/api/lol-winrates", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            gameName,
+            tagLine,
+            platform,
+            count,
+            queues,
+            includeRemakes,
+            limit: count === "season" ? limit : undefined,
+          }),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || "Failed to load winrates");
+          return;
+        }
+        setTables(data);
+        setMatchesAnalyzed(data.matchesAnalyzed);
+        if (data.complete) return;
+        setSeasonProgress(data.matchesAnalyzed);
+      }
+    } catch {
+      setError("Failed to load winrates");
+    } finally {
+      setLoading(false);
+      setSeasonProgress(null);
+    }
+  };
+
+  const rows = role ? tables.winratesByRole[role] || [] : tables.winrates;
+
+  const controlStyle: React.CSSProperties = {
+    padding: 4,
+    border: "1px solid #ccc",
+    borderRadius: 4,
+  };
+  const cellStyle: React.CSSProperties = {
+    padding: "4px 6px",
+    textAlign: "right",
+    whiteSpace: "nowrap",
+  };
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: 12,
+        }}
+      >
+        <h3 style={{ color: "#333", margin: 0 }}>Champion Winrates</h3>
+        {/* Restrict the table to games in one role */}
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value)}
+          style={controlStyle}
+        >
+          <option value="">All roles</option>
+          {Object.keys(tables.winratesByRole).map((r) => (
+            <option key={r} value={r}>
+              {ROLE_LABELS[r] || r}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Sample settings */}
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: 8,
+          alignItems: "center",
+          marginBottom: 12,
+          color: "#333",
+          fontSize: 12,
+        }}
+      >
+        <select
+          value={count}
+          disabled={loading}
+          onChange={(e) =>
+            setCount(
+              e.target.value === "season" ? "season" : Number(e.target.value)
+            )
+          }
+          style={controlStyle}
+        >
+          {SAMPLE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {QUEUE_OPTIONS.map((queue) => (
+          <label key={queue}>
+            <input
+              type="checkbox"
+              checked={queues.includes(queue)}
+              disabled={loading}
+              onChange={() => toggleQueue(queue)}
+            />{" "}
+            {getGameModeName(queue, String(queue))}
+          </label>
+        ))}
+        <label>
+          <input
+            type="checkbox"
+            checked={includeRemakes}
+            disabled={loading}
+            onChange={(e) => setIncludeRemakes(e.target.checked)}
+          />{" "}
+          Count remakes
+        </label>
+        <button
+          onClick={handleApply}
+          disabled={loading}
+          style={{
+            padding: "4px 12px",
+            backgroundColor: loading ? "#ccc" : "#0066cc",
+            color: "white",
+            border: "none",
+            borderRadius: 4,
+            cursor: loading ? "not-allowed" : "pointer",
+          }}
+        >
+          {loading
+            ? seasonProgress !== null
+              ? `Loading... (${seasonProgress} matches so far)`
+              : "Loading..."
+            : "Apply"}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: "#dc3545", fontSize: 14, marginBottom: 8 }}>
+          {error}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div style={{ fontSize: 14, color: "#666" }}>
+          No games in this sample.
+        </div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "12px",
+              color: "#333",
+            }}
+          >
+            <thead>
+              <tr style={{ color: "#666", borderBottom: "1px solid #ddd" }}>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Champion</th>
+                <th style={cellStyle}>Games</th>
+                <th style={cellStyle}>WR</th>
+                <th
+                  style={cellStyle}
+                  title="Lower bound of the 95% Wilson score interval - the winrate we can be confident in given the number of games"
+                >
+                  Score
+                </th>
+                <th style={cellStyle}>KDA</th>
+                <th style={cellStyle}>CS/min</th>
+                <th style={cellStyle}>KP</th>
+                <th style={cellStyle}>Avg dmg</th>
+                <th style={cellStyle}>Avg gold</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((champ) => (
+                <tr
+                  key={champ.champion}
+                  style={{ borderBottom: "1px solid #eee" }}
+                >
+                  <td style={{ ...cellStyle, textAlign: "left" }}>
+                    <div
+                      style={{ display: "flex", alignItems: "center", gap: 6 }}
+                    >
+                      {version && (
+                        <div
+                          role="img"
+                          aria-label={champ.champion}
+                          style={{
+                            width: 24,
+                            height: 24,
+                            borderRadius: 4,
+                            backgroundImage: `url(${getImageUrl(
+                              version,
+                              "champion",
+                              `${champ.champion}.png`
+                            )})`,
+                            backgroundSize: "cover",
+                          }}
+                        />
+                      )}
+                      <span style={{ fontWeight: "bold" }}>
+                        {champ.champion}
+                      </span>
+                    </div>
+                  </td>
+                  <td style={cellStyle}>
+                    {champ.wins}W {champ.losses}L
+                  </td>
+                  <td
+                    style={{
+                      ...cellStyle,
+                      color:
+                        Number(champ.winrate) >= 50 ? "#28a745" : "#dc3545",
+                    }}
+                  >
+                    {champ.winrate}%
+                  </td>
+                  <td style={cellStyle}>{champ.score}%</td>
+                  <td style={cellStyle}>{champ.kda}</td>
+                  <td style={cellStyle}>{champ.csPerMinute}</td>
+                  <td style={cellStyle}>{champ.killParticipation}%</td>
+                  <td style={cellStyle}>{champ.avgDamage.toLocaleString()}</td>
+                  <td style={cellStyle}>{champ.avgGold.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={{ fontSize: "12px", color: "#888", marginTop: 8 }}>
+        {matchesAnalyzed !== null
+          ? `${matchesAnalyzed} matches analyzed. `
+          : "Last 20 Ranked Solo/Duo games. "}
+        Sorted by score, the winrate adjusted for the number of games.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useState } from "react";
+// Import the minimap and map event types
+import Minimap from "./Minimap";
+import { MapEvent } from "../utils/mapEvents";
+import { useDataDragonVersion } from "../utils/useDataDragonVersion";
+
+// Match counts offered for the aggregate heatmap
+const MATCH_COUNT_OPTIONS = [5, 10, 20];
+
+// Heatmap of a player's events across their last N Summoner's Rift matches
+// Deaths are shown by default to surface recurring death locations
+export default function HeatmapPanel({
+  gameName,
+  tagLine,
+  platform,
+}: {
+  gameName: string;
+  tagLine: string;
+  platform: string;
+}) {
+  const [count, setCount] = useState(10);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{
+    matchesAnalyzed: number;
+    events: MapEvent[];
+  } | null>(null);
+  // Successful analyses so far, used to remount the minimap for each result
+  const [analysisCount, setAnalysisCount] = useState(0);
+
+  // Current Data Dragon version for the minimap image
+  const version = useDataDragonVersion();
+
+  // Fetch and combine map events from the last `count` matches
+  const handleAnalyze = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/lol-heatmap", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ gameName, tagLine, platform, count }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to load heatmap");
+        return;
+      }
+      setResult(data);
+      setAnalysisCount((n) => n + 1);
+    } catch {
+      setError("Failed to load heatmap");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <h3 style={{ color: "#333", marginBottom: 12 }}>Death Heatmap</h3>
+      <div
+        style={{
+          display: "flex",
+          gap: 8,
+          alignItems: "center",
+          marginBottom: 12,
+          color: "#333",
+          fontSize: 14,
+        }}
+      >
+        <label>
+          Last{" "}
+          <select
+            value={count}
+            disabled={loading}
+            onChange={(e) => setCount(Number(e.target.value))}
+            style={{ padding: 4, border: "1px solid #ccc", borderRadius: 4 }}
+          >
+            {MATCH_COUNT_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>{" "}
+          matches
+        </label>
+        <button
+          onClick={handleAnalyze}
+          disabled={loading}
+          style={{
+            padding: "6px 12px",
+            backgroundColor: loading ? "#ccc" : "#0066cc",
+            color: "white",
+            border: "none",
+            borderRadius: 4,
+            cursor: loading ? "not-allowed" : "pointer",
+          }}
+        >
+          {loading ? "Analyzing..." : "Analyze"}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: "#dc3545", fontSize: 14, marginBottom: 8 }}>
+          {error}
+        </div>
+      )}
+
+      {result && version && (
+        <div>
+          <div style={{ fontSize: "12px", color: "#666", marginBottom: 8 }}>
+            {result.matchesAnalyzed} Summoner&apos;s Rift matches analyzed
+          </div>
+          {/* Remount when new results arrive so the type toggles reset */}
+          <Minimap
+            key={analysisCount}
+            events={result.events}
+            version={version}
+            mode="heatmap"
+            initialTypes={["death"]}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
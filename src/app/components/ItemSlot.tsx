@@ -0,0 +1,94 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import item helpers
+import {
+  getItemImageUrl,
+  getItemTooltip,
+  ItemData,
+} from "../utils/itemMapping";
+
+// One item slot: icon with the stat tooltip, and optionally name and cost
+// An itemId of 0 renders an empty slot
+export default function ItemSlot({
+  itemId,
+  items,
+  version,
+  size = 32,
+  showDetails = false,
+}: {
+  itemId: number;
+  items: { [key: string]: ItemData };
+  version: string;
+  size?: number;
+  showDetails?: boolean;
+}) {
+  const item = itemId !== 0 ? items[itemId.toString()] : undefined;
+
+  const icon = item ? (
+    <div
+      role="img"
+      aria-label={item.name}
+      style={{
+        width: size,
+        height: size,
+        borderRadius: 4,
+        backgroundImage: `url(${getItemImageUrl(version, item)})`,
+        backgroundSize: "cover",
+      }}
+    />
+  ) : (
+    <div
+      style={{
+        width: size,
+        height: size,
+        borderRadius: 4,
+        backgroundColor: "#e9ecef",
+        border: "1px solid #ddd",
+        fontSize: 10,
+        color: "#666",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+      }}
+    >
+      {/* Unknown items (not in this patch's item.json) show their ID */}
+      {itemId !== 0 ? itemId : ""}
+    </div>
+  );
+
+  if (!showDetails) {
+    return <div title={item ? getItemTooltip(item) : undefined}>{icon}</div>;
+  }
+
+  return (
+    <div
+      title={item ? getItemTooltip(item) : undefined}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 8,
+        padding: 8,
+        backgroundColor: "#f8f9fa",
+        borderRadius: 4,
+        border: "1px solid #ddd",
+        fontSize: "12px",
+        color: "#000",
+        cursor: item ? "help" : "default",
+      }}
+    >
+      {icon}
+      <div>
+        <div style={{ fontWeight: "bold" }}>
+          {item ? item.name : itemId !== 0 ? `Item ${itemId}` : "Empty"}
+        </div>
+        {item && (
+          <div style={{ color: "#b8860b" }}>
+            {item.gold.total.toLocaleString()} gold
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
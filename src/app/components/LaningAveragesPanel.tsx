@@ -0,0 +1,97 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useEffect, useState } from "react";
+// Import the laning summary and its types
+import LaningSummary from "./LaningSummary";
+import type { LaningAverages } from "../utils/laning";
+
+// Laning phase averages over recent ranked matches
+// Loaded after the profile renders - the timelines behind it are slow
+export default function LaningAveragesPanel({
+  gameName,
+  tagLine,
+  platform,
+}: {
+  gameName: string;
+  tagLine: string;
+  platform: string;
+}) {
+  const [laning, setLaning] = useState<LaningAverages | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    // Ignore results from a load that was superseded
+    let cancelled = false;
+
+    const loadLaning = async () => {
+      setLoading(true);
+      setLaning(null);
+      try {
+        const res = await fetch("/api/lol-laning", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ gameName, tagLine, platform }),
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled) setLaning(data.laning);
+      } catch {
+        // The panel is optional - leave it hidden if the load fails
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadLaning();
+    return () => {
+      cancelled = true;
+    };
+  }, [gameName, tagLine, platform]);
+
+  if (loading) {
+    return (
+      <div style={{ marginBottom: 24, fontSize: 14, color: "#666" }}>
+        Loading laning phase...
+      </div>
+    );
+  }
+
+  // Hidden when no recent match had a lane opponent
+  if (!laning) return null;
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <h3 style={{ color: "#333", marginBottom: 12 }}>
+        Laning Phase (last {laning.games} games)
+      </h3>
+      <div
+        style={{
+          padding: 12,
+          backgroundColor: "#f8f9fa",
+          borderRadius: 8,
+          border: "1px solid #ddd",
+        }}
+      >
+        <LaningSummary
+          at10={laning.at10}
+          at15={laning.at15}
+          extras={[
+            {
+              label: "First blood involvement",
+              value: `${laning.firstBloodRate}%`,
+            },
+            {
+              label: "First tower involvement",
+              value: `${laning.firstTowerRate}%`,
+            },
+            {
+              label: "Solo kills / deaths per game",
+              value: `${laning.soloKills} / ${laning.soloDeaths}`,
+            },
+          ]}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import the laning types returned by the API routes
+import type { LaneDiff } from "../utils/laning";
+
+// Format a difference with its sign, e.g. +12 or -340
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+const diffColor = (value: number) =>
+  value > 0 ? "#28a745" : value < 0 ? "#dc3545" : "#666";
+
+// CS/gold/XP differences at 10 and 15 minutes plus extra stat lines
+// Used for a single match and for the averages on the profile
+export default function LaningSummary({
+  at10,
+  at15,
+  extras,
+}: {
+  at10: LaneDiff | null;
+  at15: LaneDiff | null;
+  extras: { label: string; value: string }[];
+}) {
+  const cell: React.CSSProperties = { padding: "4px 8px", textAlign: "right" };
+
+  return (
+    <div style={{ fontSize: "12px", color: "#333" }}>
+      <table style={{ borderCollapse: "collapse", marginBottom: 8 }}>
+        <thead>
+          <tr style={{ color: "#666" }}>
+            <th />
+            <th style={cell}>CS</th>
+            <th style={cell}>Gold</th>
+            <th style={cell}>XP</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[
+            { label: "10 min", diff: at10 },
+            { label: "15 min", diff: at15 },
+          ].map(({ label, diff }) => (
+            <tr key={label}>
+              <th style={{ ...cell, textAlign: "left" }}>{label}</th>
+              {diff ? (
+                (["csDiff", "goldDiff", "xpDiff"] as const).map((field) => (
+                  <td
+                    key={field}
+                    style={{ ...cell, color: diffColor(diff[field]) }}
+                  >
+                    {signed(diff[field])}
+                  </td>
+                ))
+              ) : (
+                <td colSpan={3} style={{ ...cell, color: "#888" }}>
+                  Game too short
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {extras.map(({ label, value }) => (
+        <div key={label}>
+          <strong>{label}:</strong> {value}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+
+// Interface for one line on the chart
+export interface LineSeries {
+  label: string;
+  color: string;
+  values: number[]; // One value per x position
+}
+
+// Dependency-free SVG line chart for per-minute match data
+// With showZero, a zero line is drawn and the y range always includes 0,
+// which is what lead/difference charts need
+export default function LineChart({
+  title,
+  xValues,
+  series,
+  showZero = false,
+  height = 160,
+}: {
+  title: string;
+  xValues: number[]; // Minutes
+  series: LineSeries[];
+  showZero?: boolean;
+  height?: number;
+}) {
+  const width = 400;
+  const padding = { top: 8, right: 8, bottom: 20, left: 44 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const allValues = series.flatMap((s) => s.values);
+  let min = Math.min(...allValues, showZero ? 0 : Infinity);
+  let max = Math.max(...allValues, showZero ? 0 : -Infinity);
+  if (!isFinite(min) || !isFinite(max)) {
+    min = 0;
+    max = 1;
+  }
+  if (min === max) max = min + 1;
+
+  const maxX = Math.max(xValues[xValues.length - 1] || 0, 1);
+  const x = (value: number) => padding.left + (value / maxX) * plotWidth;
+  const y = (value: number) =>
+    padding.top + ((max - value) / (max - min)) * plotHeight;
+
+  // Format axis values compactly, e.g. 12500 -> "12.5k"
+  const formatValue = (value: number) =>
+    Math.abs(value) >= 1000
+      ? `${(value / 1000).toFixed(1)}k`
+      : value.toFixed(0);
+
+  // X axis ticks every five minutes
+  const xTicks: number[] = [];
+  for (let minute = 0; minute <= maxX; minute += 5) xTicks.push(minute);
+
+  return (
+    <div style={{ color: "#000", fontSize: "12px" }}>
+      <div style={{ fontWeight: "bold", marginBottom: 4 }}>{title}</div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        style={{ width: "100%", height: "auto", display: "block" }}
+      >
+        {/* Plot frame and y axis labels */}
+        <rect
+          x={padding.left}
+          y={padding.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="#f8f9fa"
+          stroke="#ddd"
+        />
+        <text
+          x={padding.left - 4}
+          y={y(max) + 10}
+          fontSize={10}
+          textAnchor="end"
+        >
+          {formatValue(max)}
+        </text>
+        <text x={padding.left - 4} y={y(min)} fontSize={10} textAnchor="end">
+          {formatValue(min)}
+        </text>
+
+        {/* X axis ticks */}
+        {xTicks.map((minute) => (
+          <text
+            key={minute}
+            x={x(minute)}
+            y={height - 6}
+            fontSize={10}
+            textAnchor="middle"
+          >
+            {minute}m
+          </text>
+        ))}
+
+        {/* Zero line for difference charts */}
+        {showZero && (
+          <line
+            x1={padding.left}
+            x2={padding.left + plotWidth}
+            y1={y(0)}
+            y2={y(0)}
+            stroke="#999"
+            strokeDasharray="4 3"
+          />
+        )}
+
+        {series.map((s) => (
+          <polyline
+            key={s.label}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            points={s.values
+              .map((value, idx) => `${x(xValues[idx])},${y(value)}`)
+              .join(" ")}
+          />
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div style={{ display: "flex", gap: 12, marginTop: 4 }}>
+        {series.map((s) => (
+          <span key={s.label} style={{ color: s.color }}>
+            ■ <span style={{ color: "#333" }}>{s.label}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useEffect, useState } from "react";
+// Import Next.js Link component
+import Link from "next/link";
+// Import Data Dragon and profile URL helpers
+import { getImageUrl } from "../utils/dataDragon";
+import { getPlayerPath } from "../utils/playerRoutes";
+import type { RunePage } from "../utils/runeMapping";
+import type { SummonerSpellInfo } from "../utils/spellMapping";
+
+// Interface for a champion reference in the live game
+interface LiveChampion {
+  championId: number;
+  id: string; // Data Dragon ID, "" if unknown
+  name: string;
+}
+
+// Interface for one player in the live game from /api/lol-live-game
+interface LivePlayer {
+  puuid: string;
+  riotId: string; // "gameName#tagLine"
+  isCurrentPlayer: boolean;
+  bot: boolean;
+  champion: LiveChampion;
+  summonerSpells: SummonerSpellInfo[];
+  runes: RunePage;
+  // rank and recent are only present once the game has been enriched
+  rank?: {
+    tier: string;
+    rank: string;
+    leaguePoints: number;
+    wins: number;
+    losses: number;
+  } | null;
+  recent?: { games: number; wins: number; winrate: string | null } | null;
+}
+
+// Interface for the live game response when the player is in a game
+interface LiveGameData {
+  inGame: true;
+  gameMode: string;
+  gameLength: number; // Seconds at the time of the request
+  version: string;
+  enriched: boolean;
+  teams: {
+    teamId: number;
+    bans: (LiveChampion & { pickTurn: number })[];
+    players: LivePlayer[];
+  }[];
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+
+// "Live" banner shown on a profile while the player is in a game, with both
+// teams (champions, spells, runes, ranks, recent winrates and bans)
+export default function LiveGame({
+  gameName,
+  tagLine,
+  platform,
+}: {
+  gameName: string;
+  tagLine: string;
+  platform: string;
+}) {
+  const [game, setGame] = useState<LiveGameData | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  // Loading ranks and recent winrates, which happens on first expand
+  const [enriching, setEnriching] = useState(false);
+  // Seconds since the game was loaded, so the game timer keeps counting
+  const [elapsed, setElapsed] = useState(0);
+
+  // Check for a live game whenever the player changes
+  useEffect(() => {
+    // Ignore results from a load that was superseded
+    let cancelled = false;
+
+    const loadLiveGame = async () => {
+      try {
+        const res = await fetch("/api/lol-live-game", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ gameName, tagLine, platform }),
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled && data.inGame) {
+          setGame(data);
+          setElapsed(0);
+        }
+      } catch {
+        // The banner is optional - ignore failures
+      }
+    };
+
+    loadLiveGame();
+    return () => {
+      cancelled = true;
+    };
+  }, [gameName, tagLine, platform]);
+
+  // Show or hide the teams - ranks and recent winrates cost several Riot
+  // requests per player, so they are only loaded the first time the teams
+  // are shown
+  const handleToggle = async () => {
+    setExpanded(!expanded);
+    if (expanded || !game || game.enriched || enriching) return;
+
+    setEnriching(true);
+    try {
+      const res = await fetch("/api/lol-live-game", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ gameName, tagLine, platform, enrich: true }),
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      if (data.inGame) {
+        setGame(data);
+        setElapsed(0);
+      }
+    } catch {
+      // Keep showing the basic game data
+    } finally {
+      setEnriching(false);
+    }
+  };
+
+  // Tick the game timer once a second while a game is shown
+  useEffect(() => {
+    if (!game) return;
+    const interval = setInterval(() => setElapsed((s) => s + 1), 1000);
+    return () => clearInterval(interval);
+  }, [game]);
+
+  if (!game) return null;
+
+  const icon = (src: string | null, title: string, size: number) =>
+    src ? (
+      <div
+        role="img"
+        aria-label={title}
+        title={title}
+        style={{
+          width: size,
+          height: size,
+          borderRadius: 4,
+          backgroundImage: `url(${src})`,
+          backgroundSize: "cover",
+        }}
+      />
+    ) : (
+      <div style={{ width: size, height: size }} title={title} />
+    );
+
+  const championIcon = (champion: LiveChampion, size: number) =>
+    icon(
+      champion.id
+        ? getImageUrl(game.version, "champion", `${champion.id}.png`)
+        : null,
+      champion.name,
+      size
+    );
+
+  return (
+    <div
+      style={{
+        marginTop: 32,
+        border: "2px solid #dc3545",
+        borderRadius: 8,
+        overflow: "hidden",
+        color: "#333",
+      }}
+    >
+      {/* Banner */}
+      <button
+        type="button"
+        onClick={handleToggle}
+        style={{
+          width: "100%",
+          display: "flex",
+          alignItems: "center",
+          gap: 12,
+          padding: 12,
+          backgroundColor: "#fff0f0",
+          border: "none",
+          cursor: "pointer",
+          fontSize: 16,
+          textAlign: "left",
+        }}
+      >
+        <span
+          style={{
+            padding: "2px 8px",
+            backgroundColor: "#dc3545",
+            color: "white",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          LIVE
+        </span>
+        <span>
+          In game: <strong>{game.gameMode}</strong> &middot;{" "}
+          {formatDuration(game.gameLength + elapsed)}
+        </span>
+        <span style={{ marginLeft: "auto", fontSize: 14, color: "#666" }}>
+          {expanded ? "Hide teams ▲" : "Show teams ▼"}
+        </span>
+      </button>
+
+      {/* Both teams */}
+      {expanded && (
+        <div style={{ display: "flex", gap: 16, padding: 12 }}>
+          {game.teams.map((team) => (
+            <div key={team.teamId} style={{ flex: 1 }}>
+              <h3
+                style={{
+                  color: team.teamId === 100 ? "#0066cc" : "#cc0000",
+                  marginBottom: 8,
+                }}
+              >
+                {team.teamId === 100 ? "Blue Team" : "Red Team"}
+              </h3>
+
+              {team.players.map((player) => {
+                const [playerName, playerTag] = player.riotId.split("#");
+                // Bots all share the puuid "BOT", their champions differ
+                return (
+                  <div
+                    key={`${player.puuid}-${player.champion.championId}`}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 6,
+                      padding: 6,
+                      marginBottom: 4,
+                      borderRadius: 4,
+                      backgroundColor: player.isCurrentPlayer
+                        ? "#ffffcc"
+                        : "#f8f9fa",
+                      border: player.isCurrentPlayer
+                        ? "2px solid #ffcc00"
+                        : "1px solid #ddd",
+                      fontSize: 12,
+                    }}
+                  >
+                    {championIcon(player.champion, 32)}
+                    <div style={{ display: "grid", gap: 1 }}>
+                      {player.summonerSpells.map((spell) => (
+                        <React.Fragment key={spell.id}>
+                          {icon(spell.icon, spell.name, 15)}
+                        </React.Fragment>
+                      ))}
+                    </div>
+                    <div style={{ display: "grid", gap: 1 }}>
+                      {icon(
+                        player.runes.primaryRunes[0]?.icon ?? null,
+                        player.runes.primaryRunes[0]?.name ?? "",
+                        15
+                      )}
+                      {icon(
+                        player.runes.secondaryStyle.icon,
+                        player.runes.secondaryStyle.name,
+                        15
+                      )}
+                    </div>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontWeight: "bold" }}>
+                        {player.bot || !playerTag ? (
+                          player.riotId || player.champion.name
+                        ) : (
+                          <Link
+                            href={getPlayerPath(
+                              platform,
+                              playerName,
+                              playerTag
+                            )}
+                            style={{ color: "#0066cc" }}
+                          >
+                            {player.riotId}
+                          </Link>
+                        )}
+                      </div>
+                      <div style={{ color: "#666" }}>
+                        {!game.enriched
+                          ? enriching
+                            ? "Loading rank..."
+                            : ""
+                          : player.rank
+                          ? `${player.rank.tier} ${player.rank.rank} ${player.rank.leaguePoints} LP`
+                          : "Unranked"}
+                        {player.recent?.winrate &&
+                          ` · ${player.recent.winrate}% WR last ${player.recent.games}`}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Bans */}
+              {team.bans.length > 0 && (
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 4,
+                    marginTop: 8,
+                    fontSize: 12,
+                  }}
+                >
+                  <span style={{ color: "#666" }}>Bans:</span>
+                  {team.bans.map((ban) => (
+                    <div
+                      key={ban.pickTurn}
+                      style={{ opacity: 0.6, filter: "grayscale(100%)" }}
+                    >
+                      {championIcon(ban, 24)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import tier boundaries for the chart background
+import { TIER_BOUNDARIES } from "../utils/ranks";
+
+// Interface for the LP history of one queue from /api/lol-player-stats
+export interface LpHistory {
+  snapshots: {
+    timestamp: number;
+    tier: string;
+    rank: string;
+    leaguePoints: number;
+    ladderLp: number; // Rank as one continuous number, see getLadderLp
+  }[];
+  matches: {
+    matchId: string;
+    timestamp: number;
+    win: boolean;
+    lpChange: number | null; // null when it could not be attributed
+  }[];
+}
+
+// LP over time with tier boundaries, plus the LP result of recent matches
+export default function LpHistoryChart({ history }: { history: LpHistory }) {
+  const { snapshots, matches } = history;
+
+  if (snapshots.length < 2) {
+    return (
+      <div style={{ fontSize: "12px", color: "#888", marginTop: 8 }}>
+        LP history starts now - look this player up again after their next
+        ranked games to see LP progression.
+      </div>
+    );
+  }
+
+  const width = 400;
+  const height = 140;
+  const padding = { top: 8, right: 8, bottom: 20, left: 70 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  // Show at least 100 LP and pad the range so the line isn't on the edge
+  const values = snapshots.map((s) => s.ladderLp);
+  let min = Math.min(...values) - 25;
+  let max = Math.max(...values) + 25;
+  if (max - min < 100) {
+    const mid = (max + min) / 2;
+    min = mid - 50;
+    max = mid + 50;
+  }
+
+  const firstTime = snapshots[0].timestamp;
+  const lastTime = snapshots[snapshots.length - 1].timestamp;
+  const x = (time: number) =>
+    padding.left +
+    ((time - firstTime) / Math.max(lastTime - firstTime, 1)) * plotWidth;
+  const y = (value: number) =>
+    padding.top + ((max - value) / (max - min)) * plotHeight;
+
+  // Tier boundaries inside the visible range
+  const boundaries = TIER_BOUNDARIES.filter(
+    (b) => b.ladderLp > min && b.ladderLp < max
+  );
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    });
+
+  return (
+    <div style={{ marginTop: 8, fontSize: "12px", color: "#333" }}>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        style={{ width: "100%", height: "auto", display: "block" }}
+      >
+        <rect
+          x={padding.left}
+          y={padding.top}
+          width={plotWidth}
+          height={plotHeight}
+          fill="white"
+          stroke="#ddd"
+        />
+
+        {/* Tier boundaries */}
+        {boundaries.map((b) => (
+          <g key={b.tier}>
+            <line
+              x1={padding.left}
+              x2={padding.left + plotWidth}
+              y1={y(b.ladderLp)}
+              y2={y(b.ladderLp)}
+              stroke="#b8860b"
+              strokeDasharray="4 3"
+            />
+            <text
+              x={padding.left - 4}
+              y={y(b.ladderLp) + 3}
+              fontSize={9}
+              textAnchor="end"
+              fill="#b8860b"
+            >
+              {b.tier}
+            </text>
+          </g>
+        ))}
+
+        {/* First and last snapshot dates */}
+        <text x={padding.left} y={height - 6} fontSize={10}>
+          {formatDate(firstTime)}
+        </text>
+        <text
+          x={padding.left + plotWidth}
+          y={height - 6}
+          fontSize={10}
+          textAnchor="end"
+        >
+          {formatDate(lastTime)}
+        </text>
+
+        <polyline
+          fill="none"
+          stroke="#0066cc"
+          strokeWidth={2}
+          points={snapshots
+            .map((s) => `${x(s.timestamp)},${y(s.ladderLp)}`)
+            .join(" ")}
+        />
+        {snapshots.map((s) => (
+          <circle
+            key={s.timestamp}
+            cx={x(s.timestamp)}
+            cy={y(s.ladderLp)}
+            r={3}
+            fill="#0066cc"
+          >
+            <title>
+              {s.tier} {s.rank} {s.leaguePoints} LP -{" "}
+              {new Date(s.timestamp).toLocaleString()}
+            </title>
+          </circle>
+        ))}
+      </svg>
+
+      {/* LP result of recent matches */}
+      {matches.length > 0 && (
+        <div
+          style={{ display: "flex", flexWrap: "wrap", gap: 4, marginTop: 4 }}
+        >
+          {matches.slice(0, 10).map((match) => (
+            <span
+              key={match.matchId}
+              title={new Date(match.timestamp).toLocaleString()}
+              style={{
+                padding: "2px 6px",
+                borderRadius: 4,
+                color: "white",
+                backgroundColor: match.win ? "#28a745" : "#dc3545",
+              }}
+            >
+              {match.lpChange === null
+                ? match.win
+                  ? "W"
+                  : "L"
+                : `${match.lpChange > 0 ? "+" : ""}${match.lpChange} LP`}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
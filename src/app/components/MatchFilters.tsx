@@ -0,0 +1,204 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+
+// Interface for the filter form state - every value is a form string,
+// where "" means "any"
+export interface MatchFilterValues {
+  queue: string;
+  champion: string; // Champion key (numeric ID as a string)
+  role: string;
+  result: string;
+  from: string; // yyyy-mm-dd
+  to: string; // yyyy-mm-dd
+}
+
+export const EMPTY_MATCH_FILTERS: MatchFilterValues = {
+  queue: "",
+  champion: "",
+  role: "",
+  result: "",
+  from: "",
+  to: "",
+};
+
+// Queues offered in the queue filter
+const QUEUE_OPTIONS = [
+  { id: "420", label: "Ranked Solo/Duo" },
+  { id: "440", label: "Ranked Flex" },
+  { id: "400", label: "Normal Draft" },
+  { id: "430", label: "Normal Blind" },
+  { id: "490", label: "Quickplay" },
+  { id: "450", label: "ARAM" },
+  { id: "700", label: "Clash" },
+  { id: "1700", label: "Arena" },
+];
+
+// Roles offered in the role filter (matches the roles returned by lol-history)
+const ROLE_OPTIONS = [
+  { id: "top", label: "Top" },
+  { id: "jungle", label: "Jungle" },
+  { id: "mid", label: "Mid" },
+  { id: "adc", label: "ADC" },
+  { id: "support", label: "Support" },
+];
+
+// Convert the form state to the filters object accepted by /api/lol-history
+export function toHistoryFilters(values: MatchFilterValues) {
+  // Dates are local days: "from" starts at midnight, "to" includes the whole day
+  const toEpochSeconds = (date: string, endOfDay: boolean) => {
+    if (!date) return undefined;
+    const time = new Date(`${date}T${endOfDay ? "23:59:59" : "00:00:00"}`);
+    return Math.floor(time.getTime() / 1000);
+  };
+
+  return {
+    queue: values.queue || undefined,
+    champion: values.champion || undefined,
+    role: values.role || undefined,
+    result: values.result || undefined,
+    startTime: toEpochSeconds(values.from, false),
+    endTime: toEpochSeconds(values.to, true),
+  };
+}
+
+const selectStyle: React.CSSProperties = {
+  padding: 6,
+  border: "1px solid #ccc",
+  borderRadius: 4,
+  fontSize: 14,
+};
+
+// Filter controls shown above the match list
+export default function MatchFilters({
+  values,
+  champions,
+  disabled,
+  onChange,
+}: {
+  values: MatchFilterValues;
+  champions: { [key: string]: string }; // Champion key -> name
+  disabled?: boolean;
+  onChange: (values: MatchFilterValues) => void;
+}) {
+  // Update one field and report the whole new filter state
+  const update = (field: keyof MatchFilterValues, value: string) =>
+    onChange({ ...values, [field]: value });
+
+  const championOptions = Object.entries(champions).sort((a, b) =>
+    a[1].localeCompare(b[1])
+  );
+  const isFiltered = Object.values(values).some((value) => value !== "");
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        gap: 8,
+        alignItems: "center",
+        marginBottom: 16,
+        padding: 12,
+        backgroundColor: "#f8f9fa",
+        border: "1px solid #ddd",
+        borderRadius: 8,
+        color: "#333",
+        fontSize: 14,
+      }}
+    >
+      <select
+        value={values.queue}
+        disabled={disabled}
+        onChange={(e) => update("queue", e.target.value)}
+        style={selectStyle}
+      >
+        <option value="">All queues</option>
+        {QUEUE_OPTIONS.map((queue) => (
+          <option key={queue.id} value={queue.id}>
+            {queue.label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={values.champion}
+        disabled={disabled}
+        onChange={(e) => update("champion", e.target.value)}
+        style={selectStyle}
+      >
+        <option value="">All champions</option>
+        {championOptions.map(([key, name]) => (
+          <option key={key} value={key}>
+            {name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={values.role}
+        disabled={disabled}
+        onChange={(e) => update("role", e.target.value)}
+        style={selectStyle}
+      >
+        <option value="">All roles</option>
+        {ROLE_OPTIONS.map((role) => (
+          <option key={role.id} value={role.id}>
+            {role.label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={values.result}
+        disabled={disabled}
+        onChange={(e) => update("result", e.target.value)}
+        style={selectStyle}
+      >
+        <option value="">Wins &amp; losses</option>
+        <option value="win">Wins only</option>
+        <option value="loss">Losses only</option>
+      </select>
+
+      <label>
+        From{" "}
+        <input
+          type="date"
+          value={values.from}
+          disabled={disabled}
+          onChange={(e) => update("from", e.target.value)}
+          style={selectStyle}
+        />
+      </label>
+
+      <label>
+        To{" "}
+        <input
+          type="date"
+          value={values.to}
+          disabled={disabled}
+          onChange={(e) => update("to", e.target.value)}
+          style={selectStyle}
+        />
+      </label>
+
+      {isFiltered && (
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(EMPTY_MATCH_FILTERS)}
+          style={{
+            padding: "6px 12px",
+            backgroundColor: "#6c757d",
+            color: "white",
+            border: "none",
+            borderRadius: 4,
+            cursor: disabled ? "not-allowed" : "pointer",
+          }}
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
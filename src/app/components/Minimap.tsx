@@ -0,0 +1,149 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useState } from "react";
+// Import Data Dragon and map event helpers
+import { getImageUrl } from "../utils/dataDragon";
+import { MAP_SIZE, MapEvent } from "../utils/mapEvents";
+
+type MapEventType = MapEvent["type"];
+
+// Colour and label of each event type
+// Ward positions are estimated from the once-a-minute frame snapshot
+// (see getPlayerMapEvents), so they are marked approximate
+const EVENT_TYPES: {
+  type: MapEventType;
+  label: string;
+  color: string;
+  approximate?: boolean;
+}[] = [
+  { type: "kill", label: "Kills", color: "#28a745" },
+  { type: "death", label: "Deaths", color: "#dc3545" },
+  { type: "assist", label: "Assists", color: "#0066cc" },
+  {
+    type: "ward",
+    label: "Wards (approx.)",
+    color: "#ffc107",
+    approximate: true,
+  },
+];
+
+// Tooltip for approximate event types
+const APPROXIMATE_NOTE =
+  "Approximate position - where the player was at the nearest minute mark";
+
+// Summoner's Rift minimap with a player's events plotted on it
+// "points" draws one marker per event; "heatmap" draws soft overlapping
+// blobs so locations that recur across matches stand out
+export default function Minimap({
+  events,
+  version,
+  mode = "points",
+  initialTypes = ["kill", "death", "assist", "ward"],
+  size = 320,
+}: {
+  events: MapEvent[];
+  version: string;
+  mode?: "points" | "heatmap";
+  initialTypes?: MapEventType[];
+  size?: number;
+}) {
+  // Event types currently shown
+  const [shownTypes, setShownTypes] = useState<MapEventType[]>(initialTypes);
+
+  const toggleType = (type: MapEventType) =>
+    setShownTypes((types) =>
+      types.includes(type) ? types.filter((t) => t !== type) : [...types, type]
+    );
+
+  // Game coordinates start bottom-left, the image starts top-left
+  const toLeft = (x: number) => (x / MAP_SIZE) * size;
+  const toTop = (y: number) => size - (y / MAP_SIZE) * size;
+
+  const colorOf = (type: MapEventType) =>
+    EVENT_TYPES.find((t) => t.type === type)!.color;
+  const isApproximate = (type: MapEventType) =>
+    !!EVENT_TYPES.find((t) => t.type === type)!.approximate;
+
+  const formatTime = (ms: number) =>
+    `${Math.floor(ms / 60000)}:${Math.floor((ms % 60000) / 1000)
+      .toString()
+      .padStart(2, "0")}`;
+
+  const visible = events.filter((event) => shownTypes.includes(event.type));
+  const blobSize = size / 8;
+
+  return (
+    <div style={{ color: "#000", fontSize: "12px" }}>
+      <div
+        style={{
+          position: "relative",
+          width: size,
+          height: size,
+          backgroundImage: `url(${getImageUrl(version, "map", "map11.png")})`,
+          backgroundSize: "cover",
+          borderRadius: 4,
+          overflow: "hidden",
+          border: "1px solid #ddd",
+        }}
+      >
+        {visible.map((event, idx) =>
+          mode === "heatmap" ? (
+            <div
+              key={idx}
+              style={{
+                position: "absolute",
+                left: toLeft(event.x) - blobSize / 2,
+                top: toTop(event.y) - blobSize / 2,
+                width: blobSize,
+                height: blobSize,
+                borderRadius: "50%",
+                background: `radial-gradient(circle, ${colorOf(
+                  event.type
+                )} 0%, transparent 70%)`,
+                opacity: 0.35,
+                pointerEvents: "none",
+              }}
+            />
+          ) : (
+            <div
+              key={idx}
+              title={`${event.type} at ${formatTime(event.timestamp)}${
+                isApproximate(event.type) ? ` (${APPROXIMATE_NOTE})` : ""
+              }`}
+              style={{
+                position: "absolute",
+                left: toLeft(event.x) - 5,
+                top: toTop(event.y) - 5,
+                width: 10,
+                height: 10,
+                borderRadius: event.type === "ward" ? 2 : "50%",
+                backgroundColor: colorOf(event.type),
+                border: "1px solid white",
+              }}
+            />
+          )
+        )}
+      </div>
+
+      {/* Legend - click a type to show or hide it */}
+      <div style={{ display: "flex", gap: 12, marginTop: 8 }}>
+        {EVENT_TYPES.map(({ type, label, color, approximate }) => (
+          <label
+            key={type}
+            title={approximate ? APPROXIMATE_NOTE : undefined}
+            style={{ cursor: "pointer" }}
+          >
+            <input
+              type="checkbox"
+              checked={shownTypes.includes(type)}
+              onChange={() => toggleType(type)}
+            />{" "}
+            <span style={{ color }}>■</span> {label} (
+            {events.filter((event) => event.type === type).length})
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
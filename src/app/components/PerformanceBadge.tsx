@@ -0,0 +1,51 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import the rating type
+import type { PerformanceRating } from "../utils/performance";
+
+// Colors of the MVP (best on the winning team) and ACE (best on the losing
+// team) badges
+const BADGE_COLORS = { MVP: "#d4a017", ACE: "#6f42c1" };
+
+// Performance rating of one player: score out of 10, rank among the
+// match's players and the MVP/ACE badge if they earned one
+export default function PerformanceBadge({
+  rating,
+}: {
+  rating: PerformanceRating;
+}) {
+  return (
+    <span
+      title={`Performance rating ${rating.score}/10 - #${rating.rank} of ${rating.players} players`}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        gap: 4,
+        fontSize: "12px",
+        whiteSpace: "nowrap",
+      }}
+    >
+      <span style={{ fontWeight: "bold", color: "#333" }}>
+        {rating.score.toFixed(1)}
+      </span>
+      {rating.badge ? (
+        <span
+          style={{
+            padding: "0 4px",
+            borderRadius: 3,
+            backgroundColor: BADGE_COLORS[rating.badge],
+            color: "white",
+            fontWeight: "bold",
+            fontSize: "10px",
+          }}
+        >
+          {rating.badge}
+        </span>
+      ) : (
+        <span style={{ color: "#888" }}>#{rating.rank}</span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useEffect, useState } from "react";
+// Import Next.js Link component
+import Link from "next/link";
+// Import profile URL helpers and the teammate type
+import { getPlayerPath } from "../utils/playerRoutes";
+import type { Teammate } from "../utils/teammates";
+
+// Match counts offered for the teammate analysis
+const MATCH_COUNT_OPTIONS = [20, 50, 100];
+
+// "Played With" panel: players who were on the searched player's team in
+// several recent matches, with results and KDA in those games
+export default function PlayedWith({
+  gameName,
+  tagLine,
+  platform,
+}: {
+  gameName: string;
+  tagLine: string;
+  platform: string;
+}) {
+  const [count, setCount] = useState(20);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{
+    matchesAnalyzed: number;
+    teammates: Teammate[];
+  } | null>(null);
+
+  // Load teammates for the player and whenever the match count changes
+  useEffect(() => {
+    // Ignore results from a load that was superseded
+    let cancelled = false;
+
+    const loadTeammates = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/lol-teammates", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ gameName, tagLine, platform, count }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(data.error || "Failed to load teammates");
+          return;
+        }
+        setResult(data);
+      } catch {
+        if (!cancelled) setError("Failed to load teammates");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadTeammates();
+    return () => {
+      cancelled = true;
+    };
+  }, [gameName, tagLine, platform, count]);
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <h3 style={{ color: "#333", marginBottom: 12 }}>Played With</h3>
+      <div
+        style={{
+          display: "flex",
+          gap: 8,
+          alignItems: "center",
+          marginBottom: 12,
+          color: "#333",
+          fontSize: 14,
+        }}
+      >
+        <label>
+          Last{" "}
+          <select
+            value={count}
+            disabled={loading}
+            onChange={(e) => setCount(Number(e.target.value))}
+            style={{ padding: 4, border: "1px solid #ccc", borderRadius: 4 }}
+          >
+            {MATCH_COUNT_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>{" "}
+          matches
+        </label>
+        {loading && <span style={{ color: "#666" }}>Loading...</span>}
+      </div>
+
+      {error && (
+        <div style={{ color: "#dc3545", fontSize: 14, marginBottom: 8 }}>
+          {error}
+        </div>
+      )}
+
+      {result && result.teammates.length === 0 && (
+        <div style={{ fontSize: 14, color: "#666" }}>
+          No repeat teammates in the last {result.matchesAnalyzed} matches.
+        </div>
+      )}
+
+      {result &&
+        result.teammates.slice(0, 10).map((teammate) => (
+          <div
+            key={teammate.puuid}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              padding: 8,
+              backgroundColor: "#f8f9fa",
+              borderRadius: 4,
+              marginBottom: 4,
+              border: "1px solid #ddd",
+              color: "#333",
+              fontSize: 14,
+            }}
+          >
+            <div>
+              {/* Old matches have no tagline, so there is no profile to link */}
+              {teammate.tagLine ? (
+                <Link
+                  href={getPlayerPath(
+                    platform,
+                    teammate.gameName,
+                    teammate.tagLine
+                  )}
+                  style={{ color: "#0066cc", fontWeight: "bold" }}
+                >
+                  {teammate.gameName}
+                  <span style={{ color: "#888", fontWeight: "normal" }}>
+                    #{teammate.tagLine}
+                  </span>
+                </Link>
+              ) : (
+                <span style={{ fontWeight: "bold" }}>{teammate.gameName}</span>
+              )}
+              <div style={{ fontSize: "12px", color: "#666" }}>
+                {teammate.games} games together
+              </div>
+            </div>
+            <div style={{ textAlign: "right" }}>
+              <div
+                style={{
+                  fontWeight: "bold",
+                  color: Number(teammate.winrate) >= 50 ? "#28a745" : "#dc3545",
+                }}
+              >
+                {teammate.wins}W {teammate.games - teammate.wins}L (
+                {teammate.winrate}%)
+              </div>
+              <div style={{ fontSize: "12px", color: "#666" }}>
+                KDA together: {teammate.kda} (theirs {teammate.teammateKda})
+              </div>
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,1457 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useState, useEffect } from "react";
+// Import the match history filter controls
+import MatchFilters, {
+  EMPTY_MATCH_FILTERS,
+  MatchFilterValues,
+  toHistoryFilters,
+} from "./MatchFilters";
+// Import Data Dragon helpers for the current patch
+import { getDataUrl } from "../utils/dataDragon";
+import { useDataDragonVersion } from "../utils/useDataDragonVersion";
+// Import item data for the match analytics items section
+import { fetchItemData, ItemData } from "../utils/itemMapping";
+import ItemSlot from "./ItemSlot";
+import SpellsAndRunes from "./SpellsAndRunes";
+import Scoreboard, { ScoreboardTeam } from "./Scoreboard";
+import LineChart from "./LineChart";
+import Minimap from "./Minimap";
+import HeatmapPanel from "./HeatmapPanel";
+import PlayedWith from "./PlayedWith";
+import RoleDistribution from "./RoleDistribution";
+import type { RoleStats } from "../utils/roles";
+import ChampionWinrates from "./ChampionWinrates";
+import type { ChampionWinrate } from "../utils/winrates";
+import LiveGame from "./LiveGame";
+import LpHistoryChart, { LpHistory } from "./LpHistoryChart";
+import BuildOrder from "./BuildOrder";
+import type { BuildGroup } from "../utils/buildOrder";
+import LaningSummary from "./LaningSummary";
+import LaningAveragesPanel from "./LaningAveragesPanel";
+import type { LaningStats } from "../utils/laning";
+import { MapEvent, SUMMONERS_RIFT_MAP_ID } from "../utils/mapEvents";
+import type { RunePage } from "../utils/runeMapping";
+import type { SummonerSpellInfo } from "../utils/spellMapping";
+import PerformanceBadge from "./PerformanceBadge";
+import type { PerformanceRating } from "../utils/performance";
+
+// Type definitions for better type safety
+interface Player {
+  summonerName: string;
+  championName: string;
+  teamId: number;
+  kills: number;
+  deaths: number;
+  assists: number;
+  role: string;
+  isCurrentPlayer: boolean;
+  puuid?: string;
+  performance: PerformanceRating;
+}
+
+interface Match {
+  win: boolean;
+  champion: string;
+  performance: PerformanceRating; // The searched player's rating
+  blueTeam: Player[];
+  redTeam: Player[];
+  gameMode: string;
+  gameDuration: string;
+  gameDurationSeconds: number;
+  timeAgo: string;
+  isRemake: boolean;
+  matchId: string;
+  patch: string; // Data Dragon version of the patch the match was played on
+}
+
+export interface SearchedPlayer {
+  gameName: string;
+  tagLine: string;
+  platform: string;
+}
+
+interface PlayerStats {
+  mastery: ChampionMastery[];
+  ranked: RankedEntry[];
+  winrates: ChampionWinrate[];
+  winratesByRole: { [role: string]: ChampionWinrate[] }; // Roles without games are absent
+  roles: RoleStats[];
+}
+
+interface ChampionMastery {
+  championId: number;
+  championLevel: number;
+  championPoints: number;
+  championPointsSinceLastLevel: number;
+  chestGranted: boolean;
+  championName?: string; // Will be populated with actual champion name
+}
+
+interface RankedEntry {
+  queueType: string;
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+}
+
+interface MatchDetails {
+  playerStats: {
+    kda: string;
+    totalDamageDealtToChampions: number;
+    goldEarned: number;
+    totalMinionsKilled: number;
+    neutralMinionsKilled: number;
+    visionScore: number;
+    csPerMinute: string;
+    items: number[]; // Six inventory slots, 0 for empty
+    trinket: number;
+    summonerSpells: SummonerSpellInfo[];
+    runes: RunePage;
+  };
+  playerTimeline: TimelineEvent[];
+  scoreboard: ScoreboardTeam[];
+  leadGraphs: LeadGraphs | null; // null when the timeline is unavailable
+  mapEvents: MapEvent[];
+  itemBuild: BuildGroup[]; // Empty when the timeline is unavailable
+  skillOrder: number[];
+  laning: LaningStats | null; // null without a lane opponent or timeline
+  matchInfo: {
+    mapId: number;
+    gameVersion: string;
+    patch: string;
+  };
+}
+
+// Interface for the per-minute gold/XP/CS values of one player
+interface PlayerCurvePoint {
+  gold: number;
+  xp: number;
+  cs: number;
+}
+
+// Interface for the lead graphs data from /api/lol-match-details
+interface LeadGraphs {
+  opponent: { championName: string; riotIdGameName: string } | null;
+  frames: {
+    minute: number;
+    teamGoldDiff: number;
+    player: PlayerCurvePoint;
+    opponent: PlayerCurvePoint | null;
+  }[];
+}
+
+interface TimelineEvent {
+  timestamp: number;
+  type: string;
+}
+
+// Number of matches loaded per page of match history
+const PAGE_SIZE = 10;
+
+// Fetch one page of match history for a player - the first page when no
+// cursor is given
+const fetchHistoryPage = async (
+  player: SearchedPlayer,
+  historyFilters: MatchFilterValues,
+  cursor?: string
+) => {
+  const res = await fetch("/api/lol-history", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ...player,
+      cursor,
+      count: PAGE_SIZE,
+      filters: toHistoryFilters(historyFilters),
+    }),
+  });
+  return { res, data: await res.json() };
+};
+
+// Player profile: match history, ranked stats, winrates and mastery
+export default function PlayerProfile({
+  gameName,
+  tagLine,
+  platform,
+}: SearchedPlayer) {
+  // Loading state to show spinner while fetching data
+  const [loading, setLoading] = useState(true);
+  // Whether the first page of match history loaded successfully
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  // Error state to display any error messages
+  const [error, setError] = useState<string | null>(null);
+  // State to store the fetched match history data
+  const [matches, setMatches] = useState<Match[]>([]);
+  // Cursor for the next (older) page of matches - null once Riot has no more
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // State for load more loading
+  const [loadMoreLoading, setLoadMoreLoading] = useState(false);
+  // Filters applied to the match history (queue, champion, role, ...)
+  const [filters, setFilters] =
+    useState<MatchFilterValues>(EMPTY_MATCH_FILTERS);
+  // Loading state while the match history reloads for new filters
+  const [filtersLoading, setFiltersLoading] = useState(false);
+  // State for player statistics (mastery, winrates, ranked)
+  const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null);
+  // LP history per ranked queue type, loaded after the profile renders
+  const [lpHistory, setLpHistory] = useState<{
+    [queueType: string]: LpHistory;
+  }>({});
+  // State for detailed match analytics
+  const [selectedMatch, setSelectedMatch] = useState<Match | null>(null);
+  const [matchDetails, setMatchDetails] = useState<MatchDetails | null>(null);
+  const [showMatchDetails, setShowMatchDetails] = useState(false);
+  const [detailsLoading, setDetailsLoading] = useState(false);
+  // Item data for the patch of the selected match
+  const [itemData, setItemData] = useState<{ [key: string]: ItemData }>({});
+  // Estimated wait (ms) before the Riot API has budget for our requests
+  const [rateLimitWaitMs, setRateLimitWaitMs] = useState(0);
+  // State for champion data
+  const [championData, setChampionData] = useState<{ [key: string]: string }>(
+    {}
+  );
+
+  // Current Data Dragon version (null while it loads)
+  const version = useDataDragonVersion();
+
+  // Load champion data once the current version is known
+  useEffect(() => {
+    if (!version) return;
+
+    const loadChampionData = async () => {
+      try {
+        // Fetch all champion data at once for better mapping
+        const response = await fetch(getDataUrl(version, "champion.json"));
+
+        if (response.ok) {
+          const data = await response.json();
+          const championNames: { [key: string]: string } = {};
+
+          // Map champion keys to names
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          Object.values(data.data).forEach((champion: any) => {
+            championNames[champion.key] = champion.name;
+          });
+
+          setChampionData(championNames);
+        }
+      } catch (error) {
+        console.error("Error loading champion data:", error);
+      }
+    };
+
+    loadChampionData();
+  }, [version]);
+
+  // Poll the server's rate limit budget while a search is running so we can
+  // tell the user how long they will wait
+  useEffect(() => {
+    if (!loading) {
+      setRateLimitWaitMs(0);
+      return;
+    }
+
+    const pollRateLimit = async () => {
+      try {
+        const res = await fetch(`/api/lol-rate-limit?platform=${platform}`);
+        if (res.ok) {
+          const data = await res.json();
+          setRateLimitWaitMs(data.estimatedWaitMs);
+        }
+      } catch {
+        // The estimate is best-effort - ignore failures
+      }
+    };
+
+    pollRateLimit();
+    const interval = setInterval(pollRateLimit, 1000);
+    return () => clearInterval(interval);
+  }, [loading, platform]);
+
+  // Load the LP history once the player stats are shown - attributing LP to
+  // matches takes extra Riot requests, so it must not hold up the profile
+  const statsLoaded = playerStats !== null;
+  useEffect(() => {
+    if (!statsLoaded) return;
+
+    // Ignore results from a load that was superseded
+    let cancelled = false;
+    setLpHistory({});
+
+    const loadLpHistory = async () => {
+      try {
+        const res = await fetch("/api/lol-lp-history", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ gameName, tagLine, platform }),
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled) setLpHistory(data.lpHistory);
+      } catch {
+        // The graphs are optional - leave them out if the load fails
+      }
+    };
+
+    loadLpHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [statsLoaded, gameName, tagLine, platform]);
+
+  // Load the profile whenever the player changes
+  useEffect(() => {
+    // Ignore results from a load that was superseded (e.g. React strict mode)
+    let cancelled = false;
+
+    const loadProfile = async () => {
+      // Set loading state to true to show loading indicator
+      setLoading(true);
+      // Clear any previous errors
+      setError(null);
+
+      try {
+        // Send POST request to our API route with the gameName, tagLine and platform
+        const { res, data } = await fetchHistoryPage(
+          { gameName, tagLine, platform },
+          EMPTY_MATCH_FILTERS
+        );
+        if (cancelled) return;
+
+        // Handle errors from the API - check if response was not successful
+        if (!res.ok) {
+          setError(data.error || "Unknown error");
+          return;
+        }
+
+        // Set the matches in state if successful
+        setMatches(data.matches);
+        setNextCursor(data.nextCursor);
+        setHistoryLoaded(true);
+
+        // Fetch player statistics (mastery, winrates, ranked)
+        const statsRes = await fetch("/api/lol-player-stats", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ gameName, tagLine, platform }),
+        });
+        if (cancelled) return;
+
+        if (statsRes.ok) {
+          const statsData = await statsRes.json();
+          setPlayerStats(statsData);
+        } else {
+          console.log(
+            "Player stats API error:",
+            statsRes.status,
+            statsRes.statusText
+          );
+          const errorData = await statsRes.json();
+          console.log("Error details:", errorData);
+
+          // Handle rate limit errors specifically
+          if (statsRes.status === 429) {
+            setError(
+              "Rate limit exceeded. Please wait a moment and try again."
+            );
+          }
+        }
+      } catch {
+        // Handle network errors or other unexpected errors
+        if (!cancelled) setError("Failed to fetch data");
+      } finally {
+        // Always set loading to false when done (whether success or error)
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [gameName, tagLine, platform]);
+
+  // Handler for load more button - fetches the next page of older matches
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadMoreLoading(true);
+
+    try {
+      const { res, data } = await fetchHistoryPage(
+        { gameName, tagLine, platform },
+        filters,
+        nextCursor
+      );
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load more matches");
+        return;
+      }
+
+      // Append the older matches below the ones already shown
+      setMatches((prev) => [...prev, ...data.matches]);
+      setNextCursor(data.nextCursor);
+    } catch {
+      setError("Failed to load more matches");
+    } finally {
+      setLoadMoreLoading(false);
+    }
+  };
+
+  // Handler for the filter controls - reloads the history from the first page
+  const handleFiltersChange = async (newFilters: MatchFilterValues) => {
+    setFilters(newFilters);
+
+    setFiltersLoading(true);
+    setError(null);
+    setMatches([]);
+    setNextCursor(null);
+    try {
+      const { res, data } = await fetchHistoryPage(
+        { gameName, tagLine, platform },
+        newFilters
+      );
+
+      if (!res.ok) {
+        setError(data.error || "Failed to filter matches");
+        return;
+      }
+
+      setMatches(data.matches);
+      setNextCursor(data.nextCursor);
+    } catch {
+      setError("Failed to filter matches");
+    } finally {
+      setFiltersLoading(false);
+    }
+  };
+
+  // Handler for clicking on a match to show detailed analytics
+  const handleMatchClick = async (match: Match) => {
+    setSelectedMatch(match);
+    setDetailsLoading(true);
+    setShowMatchDetails(true);
+
+    try {
+      // Get PUUID from the first match (assuming same player)
+      const puuid =
+        match.blueTeam.find((p: Player) => p.isCurrentPlayer)?.puuid ||
+        match.redTeam.find((p: Player) => p.isCurrentPlayer)?.puuid;
+
+      if (!puuid) {
+        setError("Could not identify player in match");
+        return;
+      }
+
+      // Extract match ID from the match data
+      const matchId = match.matchId;
+
+      const res = await fetch("/api/lol-match-details", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          matchId,
+          puuid,
+          platform,
+        }),
+      });
+
+      if (!res.ok) {
+        setError("Failed to fetch match details");
+        return;
+      }
+
+      const data = await res.json();
+      // Load items from the patch the match was played on
+      setItemData(await fetchItemData(data.matchInfo.patch));
+      setMatchDetails(data);
+    } catch {
+      setError("Failed to fetch match details");
+    } finally {
+      setDetailsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Loading indicator while the profile is fetched */}
+      {loading && (
+        <div style={{ textAlign: "center", padding: 40 }}>
+          <div style={{ fontSize: 18, color: "#666" }}>
+            Loading {gameName}#{tagLine}...
+          </div>
+        </div>
+      )}
+
+      {/* Rate limit notice while requests are queued */}
+      {loading && rateLimitWaitMs > 0 && (
+        <div
+          style={{
+            marginBottom: 16,
+            fontSize: 14,
+            color: "#666",
+            textAlign: "center",
+          }}
+        >
+          Riot API rate limit reached - estimated wait{" "}
+          {Math.ceil(rateLimitWaitMs / 1000)}s
+        </div>
+      )}
+
+      {/* Error message display */}
+      {error && (
+        <div
+          style={{
+            color: "red",
+            backgroundColor: "#ffe6e6",
+            padding: 12,
+            borderRadius: 4,
+            marginBottom: 16,
+            border: "1px solid #ff9999",
+          }}
+        >
+          Error: {error}
+        </div>
+      )}
+
+      {/* Live game banner - renders nothing unless the player is in game */}
+      {historyLoaded && !loading && (
+        <LiveGame gameName={gameName} tagLine={tagLine} platform={platform} />
+      )}
+
+      {/* Main content layout when data is loaded */}
+      {historyLoaded && !loading && (
+        <div style={{ display: "flex", gap: 24, marginTop: 32 }}>
+          {/* Left Section - Match History */}
+          <div style={{ flex: 2 }}>
+            <h2 style={{ color: "#333", marginBottom: 16 }}>
+              Recent Matches ({matches.length})
+            </h2>
+
+            {/* Match history filters */}
+            <MatchFilters
+              values={filters}
+              champions={championData}
+              disabled={filtersLoading}
+              onChange={handleFiltersChange}
+            />
+
+            {filtersLoading && (
+              <div style={{ textAlign: "center", padding: 20, color: "#666" }}>
+                Loading matches...
+              </div>
+            )}
+
+            {!filtersLoading && matches.length === 0 && (
+              <div style={{ textAlign: "center", padding: 20, color: "#666" }}>
+                No matches found for these filters
+              </div>
+            )}
+
+            <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+              {matches.map((match, idx) => (
+                <div
+                  key={idx}
+                  style={{
+                    border: "1px solid #ddd",
+                    borderRadius: 8,
+                    padding: 16,
+                    backgroundColor: match.isRemake
+                      ? "#fff3e0"
+                      : match.win
+                      ? "#e8f5e8"
+                      : "#ffe6e6",
+                    color: "#000000",
+                    cursor: "pointer",
+                    transition: "transform 0.2s",
+                  }}
+                  onClick={() => handleMatchClick(match)}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.transform = "scale(1.02)";
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.transform = "scale(1)";
+                  }}
+                >
+                  {/* Match result with color coding */}
+                  <div
+                    style={{
+                      fontWeight: "bold",
+                      fontSize: 18,
+                      color: match.isRemake
+                        ? "#ff8c00"
+                        : match.win
+                        ? "#28a745"
+                        : "#dc3545",
+                      marginBottom: 8,
+                    }}
+                  >
+                    {match.isRemake
+                      ? "🔄 REMAKE"
+                      : match.win
+                      ? "🏆 WIN"
+                      : "❌ LOSS"}{" "}
+                    - {match.gameMode} ({match.gameDuration})
+                  </div>
+                  {/* Time ago information */}
+                  <div
+                    style={{
+                      fontSize: "14px",
+                      color: "#666",
+                      marginBottom: 8,
+                    }}
+                  >
+                    {match.timeAgo}
+                    {!match.isRemake && (
+                      <>
+                        {" - Performance "}
+                        <PerformanceBadge rating={match.performance} />
+                      </>
+                    )}
+                  </div>
+
+                  {/* Teams display section */}
+                  <div style={{ display: "flex", gap: 16, marginTop: 16 }}>
+                    {/* Blue Team (Left Side) */}
+                    <div style={{ flex: 1, color: "#000000" }}>
+                      <h3
+                        style={{
+                          textAlign: "center",
+                          marginBottom: 12,
+                          color: "#0066cc",
+                          fontWeight: "bold",
+                        }}
+                      >
+                        Blue Team
+                      </h3>
+                      <div
+                        style={{
+                          display: "flex",
+                          flexDirection: "column",
+                          gap: 8,
+                        }}
+                      >
+                        {match.blueTeam.map((player: Player, i: number) => (
+                          <div
+                            key={i}
+                            style={{
+                              padding: 8,
+                              backgroundColor: player.isCurrentPlayer
+                                ? "#ffffcc"
+                                : "#f8f9fa",
+                              borderRadius: 4,
+                              border: player.isCurrentPlayer
+                                ? "2px solid #ffcc00"
+                                : "1px solid #ddd",
+                              position: "relative",
+                              overflow: "hidden",
+                              minHeight: 60,
+                            }}
+                          >
+                            {/* Champion background image - full container */}
+                            <div
+                              style={{
+                                position: "absolute",
+                                top: 0,
+                                left: 0,
+                                right: 0,
+                                bottom: 0,
+                                backgroundImage: `url(https://ddragon.leagueoflegends.com/cdn/img/champion/centered/${player.championName.replace(
+                                  /\s+/g,
+                                  ""
+                                )}_0.jpg)`,
+                                backgroundSize: "cover",
+                                backgroundPosition: "center 20%",
+                                opacity: 0.3,
+                                zIndex: 1,
+                              }}
+                            />
+
+                            {/* Content overlay */}
+                            <div
+                              style={{
+                                position: "relative",
+                                zIndex: 2,
+                                textAlign: "left",
+                                paddingLeft: 8,
+                              }}
+                            >
+                              <div
+                                style={{
+                                  fontWeight: player.isCurrentPlayer
+                                    ? "bold"
+                                    : "normal",
+                                  fontSize: player.isCurrentPlayer
+                                    ? "16px"
+                                    : "14px",
+                                  display: "flex",
+                                  alignItems: "center",
+                                  gap: 8,
+                                }}
+                              >
+                                <span
+                                  style={{
+                                    color: "#0066cc",
+                                    fontWeight: "bold",
+                                  }}
+                                >
+                                  {player.role.toUpperCase()}
+                                </span>
+                                {" - "}
+                                <span
+                                  style={{ fontWeight: "bold", color: "#333" }}
+                                >
+                                  {player.summonerName}
+                                </span>
+                                {" - "}
+                                <span style={{ color: "#333" }}>
+                                  {player.championName}
+                                </span>
+                              </div>
+                              <div
+                                style={{
+                                  fontSize: "12px",
+                                  color: "#333",
+                                  marginTop: 2,
+                                  display: "flex",
+                                  gap: 8,
+                                }}
+                              >
+                                <span>
+                                  KDA: {player.kills}/{player.deaths}/
+                                  {player.assists}
+                                </span>
+                                {/* Ratings are meaningless for remakes */}
+                                {!match.isRemake && (
+                                  <PerformanceBadge
+                                    rating={player.performance}
+                                  />
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Red Team (Right Side) */}
+                    <div style={{ flex: 1, color: "#000000" }}>
+                      <h3
+                        style={{
+                          textAlign: "center",
+                          marginBottom: 12,
+                          color: "#cc0000",
+                          fontWeight: "bold",
+                        }}
+                      >
+                        Red Team
+                      </h3>
+                      <div
+                        style={{
+                          display: "flex",
+                          flexDirection: "column",
+                          gap: 8,
+                        }}
+                      >
+                        {match.redTeam.map((player: Player, i: number) => (
+                          <div
+                            key={i}
+                            style={{
+                              padding: 8,
+                              backgroundColor: player.isCurrentPlayer
+                                ? "#ffffcc"
+                                : "#f8f9fa",
+                              borderRadius: 4,
+                              border: player.isCurrentPlayer
+                                ? "2px solid #ffcc00"
+                                : "1px solid #ddd",
+                              position: "relative",
+                              overflow: "hidden",
+                              minHeight: 60,
+                            }}
+                          >
+                            {/* Champion background image - full container */}
+                            <div
+                              style={{
+                                position: "absolute",
+                                top: 0,
+                                left: 0,
+                                right: 0,
+                                bottom: 0,
+                                backgroundImage: `url(https://ddragon.leagueoflegends.com/cdn/img/champion/centered/${player.championName.replace(
+                                  /\s+/g,
+                                  ""
+                                )}_0.jpg)`,
+                                backgroundSize: "cover",
+                                backgroundPosition: "center 20%",
+                                opacity: 0.3,
+                                zIndex: 1,
+                              }}
+                            />
+
+                            {/* Content overlay */}
+                            <div
+                              style={{
+                                position: "relative",
+                                zIndex: 2,
+                                textAlign: "right",
+                                paddingRight: 8,
+                              }}
+                            >
+                              <div
+                                style={{
+                                  fontWeight: player.isCurrentPlayer
+                                    ? "bold"
+                                    : "normal",
+                                  fontSize: player.isCurrentPlayer
+                                    ? "16px"
+                                    : "14px",
+                                  display: "flex",
+                                  alignItems: "center",
+                                  gap: 8,
+                                  justifyContent: "flex-end",
+                                }}
+                              >
+                                <span
+                                  style={{
+                                    color: "#cc0000",
+                                    fontWeight: "bold",
+                                  }}
+                                >
+                                  {player.role.toUpperCase()}
+                                </span>
+                                {" - "}
+                                <span
+                                  style={{ fontWeight: "bold", color: "#333" }}
+                                >
+                                  {player.summonerName}
+                                </span>
+                                {" - "}
+                                <span style={{ color: "#333" }}>
+                                  {player.championName}
+                                </span>
+                              </div>
+                              <div
+                                style={{
+                                  fontSize: "12px",
+                                  color: "#333",
+                                  marginTop: 2,
+                                  display: "flex",
+                                  gap: 8,
+                                }}
+                              >
+                                <span>
+                                  KDA: {player.kills}/{player.deaths}/
+                                  {player.assists}
+                                </span>
+                                {/* Ratings are meaningless for remakes */}
+                                {!match.isRemake && (
+                                  <PerformanceBadge
+                                    rating={player.performance}
+                                  />
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Load more button */}
+            {nextCursor && !filtersLoading && (
+              <div style={{ textAlign: "center", marginTop: 16 }}>
+                <button
+                  onClick={handleLoadMore}
+                  disabled={loadMoreLoading}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: loadMoreLoading ? "#ccc" : "#007bff",
+                    color: "white",
+                    border: "none",
+                    borderRadius: 4,
+                    cursor: loadMoreLoading ? "not-allowed" : "pointer",
+                    fontSize: 16,
+                  }}
+                >
+                  {loadMoreLoading ? "Loading..." : "Load More"}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Middle Section - Player Stats */}
+          <div style={{ flex: 1 }}>
+            <h2 style={{ color: "#333", marginBottom: 16 }}>
+              Player Statistics
+            </h2>
+
+            {/* Ranked Information */}
+            {playerStats?.ranked && playerStats.ranked.length > 0 && (
+              <div style={{ marginBottom: 24 }}>
+                <h3 style={{ color: "#333", marginBottom: 12 }}>
+                  Current Rank
+                </h3>
+                {playerStats.ranked.map((rank: RankedEntry, idx: number) => (
+                  <div
+                    key={idx}
+                    style={{
+                      padding: 12,
+                      backgroundColor: "#f8f9fa",
+                      borderRadius: 8,
+                      marginBottom: 8,
+                      border: "1px solid #ddd",
+                    }}
+                  >
+                    <div style={{ fontWeight: "bold", color: "#333" }}>
+                      {rank.queueType === "RANKED_SOLO_5x5"
+                        ? "Ranked Solo/Duo"
+                        : "Ranked Flex"}
+                    </div>
+                    <div style={{ color: "#666" }}>
+                      {rank.tier} {rank.rank} - {rank.leaguePoints} LP
+                    </div>
+                    <div style={{ fontSize: "12px", color: "#888" }}>
+                      {rank.wins}W {rank.losses}L (
+                      {((rank.wins / (rank.wins + rank.losses)) * 100).toFixed(
+                        1
+                      )}
+                      % WR)
+                    </div>
+                    {/* LP over time from stored snapshots */}
+                    {lpHistory[rank.queueType] && (
+                      <LpHistoryChart history={lpHistory[rank.queueType]} />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Role distribution over recent ranked matches */}
+            {playerStats?.roles && playerStats.roles.length > 0 && (
+              <div style={{ marginBottom: 24 }}>
+                <h3 style={{ color: "#333", marginBottom: 12 }}>Roles</h3>
+                <div
+                  style={{
+                    padding: 12,
+                    backgroundColor: "#f8f9fa",
+                    borderRadius: 8,
+                    border: "1px solid #ddd",
+                  }}
+                >
+                  <RoleDistribution roles={playerStats.roles} />
+                </div>
+              </div>
+            )}
+
+            {/* Champion winrates, with a configurable sample */}
+            {playerStats && (
+              <ChampionWinrates
+                key={`${platform}/${gameName}#${tagLine}`}
+                gameName={gameName}
+                tagLine={tagLine}
+                platform={platform}
+                initial={playerStats}
+              />
+            )}
+
+            {/* Laning phase averages over recent ranked matches */}
+            <LaningAveragesPanel
+              gameName={gameName}
+              tagLine={tagLine}
+              platform={platform}
+            />
+
+            {/* Frequent teammates across recent matches */}
+            <PlayedWith
+              gameName={gameName}
+              tagLine={tagLine}
+              platform={platform}
+            />
+
+            {/* Aggregate death heatmap across recent matches */}
+            <HeatmapPanel
+              gameName={gameName}
+              tagLine={tagLine}
+              platform={platform}
+            />
+          </div>
+
+          {/* Right Section - Champion Mastery */}
+          <div style={{ flex: 1 }}>
+            <h2 style={{ color: "#333", marginBottom: 16 }}>
+              Champion Mastery
+            </h2>
+
+            {playerStats?.mastery && playerStats.mastery.length > 0 ? (
+              <div>
+                {playerStats.mastery
+                  .slice(0, 15)
+                  .map((champ: ChampionMastery, idx: number) => {
+                    const championName =
+                      championData[champ.championId.toString()] ||
+                      `Champion ${champ.championId}`;
+
+                    return (
+                      <div
+                        key={idx}
+                        style={{
+                          padding: 12,
+                          backgroundColor: "#f8f9fa",
+                          borderRadius: 8,
+                          marginBottom: 8,
+                          border: "1px solid #ddd",
+                          position: "relative",
+                          overflow: "hidden",
+                          minHeight: 80,
+                        }}
+                      >
+                        {/* Champion background image - full container */}
+                        <div
+                          style={{
+                            position: "absolute",
+                            top: 0,
+                            left: 0,
+                            right: 0,
+                            bottom: 0,
+                            backgroundImage: `url(https://ddragon.leagueoflegends.com/cdn/img/champion/centered/${championName.replace(
+                              /\s+/g,
+                              ""
+                            )}_0.jpg)`,
+                            backgroundSize: "cover",
+                            backgroundPosition: "center 20%",
+                            opacity: 0.3,
+                            zIndex: 1,
+                          }}
+                        />
+
+                        {/* Content overlay */}
+                        <div
+                          style={{
+                            position: "relative",
+                            zIndex: 2,
+                            textAlign: "left",
+                            paddingLeft: 8,
+                          }}
+                        >
+                          <div
+                            style={{
+                              fontWeight: "bold",
+                              color: "#333",
+                              fontSize: 14,
+                            }}
+                          >
+                            {championName}
+                          </div>
+                          <div style={{ fontSize: "12px", color: "#666" }}>
+                            Level {champ.championLevel} -{" "}
+                            {champ.championPoints.toLocaleString()} pts
+                          </div>
+                          <div style={{ fontSize: "10px", color: "#888" }}>
+                            {champ.championPointsSinceLastLevel.toLocaleString()}{" "}
+                            pts since last level
+                          </div>
+                          {champ.chestGranted && (
+                            <div style={{ fontSize: "10px", color: "#28a745" }}>
+                              ✓ Chest earned
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+              </div>
+            ) : (
+              <div style={{ color: "#666", textAlign: "center", padding: 20 }}>
+                No mastery data available
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Detailed Match Analytics Modal */}
+      {showMatchDetails && selectedMatch && (
+        <div
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "rgba(0,0,0,0.8)",
+            display: "flex",
+            justifyContent: "center",
+            alignItems: "center",
+            zIndex: 1000,
+          }}
+          onClick={() => setShowMatchDetails(false)}
+        >
+          <div
+            style={{
+              backgroundColor: "white",
+              padding: 24,
+              borderRadius: 8,
+              maxWidth: 960,
+              maxHeight: "80vh",
+              overflowY: "auto",
+              position: "relative",
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => setShowMatchDetails(false)}
+              style={{
+                position: "absolute",
+                top: 12,
+                right: 12,
+                background: "none",
+                border: "none",
+                fontSize: "24px",
+                cursor: "pointer",
+                color: "#666",
+              }}
+            >
+              ×
+            </button>
+
+            <h2 style={{ marginBottom: 164, color: "#000" }}>
+              Match Analytics
+              <span style={{ fontSize: 14, color: "#666", marginLeft: 8 }}>
+                Patch {selectedMatch.patch.split(".").slice(0, 2).join(".")}
+              </span>
+            </h2>
+
+            {detailsLoading ? (
+              <div style={{ textAlign: "center", padding: 40, color: "#000" }}>
+                Loading detailed analytics...
+              </div>
+            ) : matchDetails ? (
+              <div>
+                {/* Player Stats */}
+                <div style={{ marginBottom: 24 }}>
+                  <h3 style={{ color: "#000" }}>Player Performance</h3>
+                  <div
+                    style={{
+                      display: "grid",
+                      gridTemplateColumns: "repeat(3, 1fr)",
+                      gap: 12,
+                    }}
+                  >
+                    <div
+                      style={{
+                        padding: 8,
+                        backgroundColor: "#f8f9fa",
+                        borderRadius: 4,
+                        color: "#000",
+                      }}
+                    >
+                      <strong>KDA:</strong> {matchDetails.playerStats.kda}
+                    </div>
+                    <div
+                      style={{
+                        padding: 8,
+                        backgroundColor: "#f8f9fa",
+                        borderRadius: 4,
+                        color: "#000",
+                      }}
+                    >
+                      <strong>Damage:</strong>{" "}
+                      {matchDetails.playerStats.totalDamageDealtToChampions.toLocaleString()}
+                    </div>
+                    <div
+                      style={{
+                        padding: 8,
+                        backgroundColor: "#f8f9fa",
+                        borderRadius: 4,
+                        color: "#000",
+                      }}
+                    >
+                      <strong>Gold:</strong>{" "}
+                      {matchDetails.playerStats.goldEarned.toLocaleString()}
+                    </div>
+                    <div
+                      style={{
+                        padding: 8,
+                        backgroundColor: "#f8f9fa",
+                        borderRadius: 4,
+                        color: "#000",
+                      }}
+                    >
+                      <strong>CS:</strong>{" "}
+                      {matchDetails.playerStats.totalMinionsKilled +
+                        matchDetails.playerStats.neutralMinionsKilled}
+                    </div>
+                    <div
+                      style={{
+                        padding: 8,
+                        backgroundColor: "#f8f9fa",
+                        borderRadius: 4,
+                        color: "#000",
+                      }}
+                    >
+                      <strong>Vision Score:</strong>{" "}
+                      {matchDetails.playerStats.visionScore}
+                    </div>
+                    <div
+                      style={{
+                        padding: 8,
+                        backgroundColor: "#f8f9fa",
+                        borderRadius: 4,
+                        color: "#000",
+                      }}
+                    >
+                      <strong>CS/min:</strong>{" "}
+                      {matchDetails.playerStats.csPerMinute}
+                    </div>
+                  </div>
+                </div>
+
+                {/* Laning phase against the lane opponent */}
+                {matchDetails.laning && (
+                  <div style={{ marginBottom: 24 }}>
+                    <h3 style={{ color: "#000" }}>
+                      Laning vs {matchDetails.laning.opponent.championName} (
+                      {matchDetails.laning.opponent.riotIdGameName})
+                    </h3>
+                    <LaningSummary
+                      at10={matchDetails.laning.at10}
+                      at15={matchDetails.laning.at15}
+                      extras={[
+                        {
+                          label: "First blood",
+                          value:
+                            matchDetails.laning.firstBlood === "kill"
+                              ? "Killed"
+                              : matchDetails.laning.firstBlood === "assist"
+                              ? "Assisted"
+                              : matchDetails.laning.firstBlood === "victim"
+                              ? "Died"
+                              : "Not involved",
+                        },
+                        {
+                          label: "First tower",
+                          value: matchDetails.laning.firstTower
+                            ? "Involved"
+                            : "Not involved",
+                        },
+                        {
+                          label: "Solo kills / deaths in lane",
+                          value: `${matchDetails.laning.soloKills} / ${matchDetails.laning.soloDeaths}`,
+                        },
+                      ]}
+                    />
+                  </div>
+                )}
+
+                {/* Gold and XP graphs */}
+                {matchDetails.leadGraphs && (
+                  <div style={{ marginBottom: 24 }}>
+                    <h3 style={{ color: "#000" }}>Gold &amp; XP</h3>
+                    <LineChart
+                      title="Team gold difference"
+                      xValues={matchDetails.leadGraphs.frames.map(
+                        (f) => f.minute
+                      )}
+                      series={[
+                        {
+                          label: "Your team's gold lead",
+                          color: "#0066cc",
+                          values: matchDetails.leadGraphs.frames.map(
+                            (f) => f.teamGoldDiff
+                          ),
+                        },
+                      ]}
+                      showZero
+                    />
+                    <div
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns: "repeat(3, 1fr)",
+                        gap: 12,
+                        marginTop: 16,
+                      }}
+                    >
+                      {(["gold", "xp", "cs"] as const).map((stat) => {
+                        const graphs = matchDetails.leadGraphs!;
+                        const series = [
+                          {
+                            label: "You",
+                            color: "#28a745",
+                            values: graphs.frames.map((f) => f.player[stat]),
+                          },
+                        ];
+                        // Lane opponent, when the match has lane positions
+                        if (graphs.opponent) {
+                          series.push({
+                            label: graphs.opponent.championName,
+                            color: "#dc3545",
+                            values: graphs.frames.map(
+                              (f) => f.opponent?.[stat] ?? 0
+                            ),
+                          });
+                        }
+                        return (
+                          <LineChart
+                            key={stat}
+                            title={
+                              stat === "gold"
+                                ? "Gold"
+                                : stat === "xp"
+                                ? "Experience"
+                                : "CS"
+                            }
+                            xValues={graphs.frames.map((f) => f.minute)}
+                            series={series}
+                            height={200}
+                          />
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {/* Minimap - only Summoner's Rift has a matching map image */}
+                {matchDetails.matchInfo.mapId === SUMMONERS_RIFT_MAP_ID &&
+                  matchDetails.mapEvents.length > 0 && (
+                    <div style={{ marginBottom: 24 }}>
+                      <h3 style={{ color: "#000" }}>Map</h3>
+                      <Minimap
+                        events={matchDetails.mapEvents}
+                        version={matchDetails.matchInfo.patch}
+                      />
+                    </div>
+                  )}
+
+                {/* Items */}
+                <div style={{ marginBottom: 24 }}>
+                  <h3 style={{ color: "#000" }}>Items</h3>
+                  <div
+                    style={{
+                      display: "flex",
+                      gap: 16,
+                      alignItems: "flex-start",
+                    }}
+                  >
+                    {/* Six inventory slots */}
+                    <div
+                      style={{
+                        flex: 1,
+                        display: "grid",
+                        gridTemplateColumns: "repeat(3, 1fr)",
+                        gap: 8,
+                      }}
+                    >
+                      {matchDetails.playerStats.items.map(
+                        (itemId: number, idx: number) => (
+                          <ItemSlot
+                            key={idx}
+                            itemId={itemId}
+                            items={itemData}
+                            version={matchDetails.matchInfo.patch}
+                            showDetails
+                          />
+                        )
+                      )}
+                    </div>
+
+                    {/* Trinket slot (item6) */}
+                    <div style={{ width: 160 }}>
+                      <div
+                        style={{
+                          fontSize: "12px",
+                          color: "#666",
+                          marginBottom: 4,
+                        }}
+                      >
+                        Trinket
+                      </div>
+                      <ItemSlot
+                        itemId={matchDetails.playerStats.trinket}
+                        items={itemData}
+                        version={matchDetails.matchInfo.patch}
+                        showDetails
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Build path and skill order */}
+                {matchDetails.itemBuild.length > 0 && (
+                  <div style={{ marginBottom: 24 }}>
+                    <h3 style={{ color: "#000" }}>Build Order</h3>
+                    <BuildOrder
+                      itemBuild={matchDetails.itemBuild}
+                      skillOrder={matchDetails.skillOrder}
+                      items={itemData}
+                      version={matchDetails.matchInfo.patch}
+                    />
+                  </div>
+                )}
+
+                {/* Summoner spells and runes */}
+                <div style={{ marginBottom: 24 }}>
+                  <h3 style={{ color: "#000" }}>Spells &amp; Runes</h3>
+                  <SpellsAndRunes
+                    spells={matchDetails.playerStats.summonerSpells}
+                    runes={matchDetails.playerStats.runes}
+                  />
+                </div>
+
+                {/* Scoreboard */}
+                <div style={{ marginBottom: 24 }}>
+                  <h3 style={{ color: "#000" }}>Scoreboard</h3>
+                  <Scoreboard
+                    teams={matchDetails.scoreboard}
+                    items={itemData}
+                    version={matchDetails.matchInfo.patch}
+                  />
+                </div>
+
+                {/* Timeline Events */}
+                {matchDetails.playerTimeline &&
+                  matchDetails.playerTimeline.length > 0 && (
+                    <div>
+                      <h3 style={{ color: "#000" }}>Timeline Events</h3>
+                      <div style={{ maxHeight: 200, overflowY: "auto" }}>
+                        {matchDetails.playerTimeline
+                          .slice(0, 20)
+                          .map((event: TimelineEvent, idx: number) => (
+                            <div
+                              key={idx}
+                              style={{
+                                padding: 4,
+                                fontSize: "12px",
+                                borderBottom: "1px solid #eee",
+                                color: "#000",
+                              }}
+                            >
+                              {Math.floor(event.timestamp / 60000)}:
+                              {((event.timestamp % 60000) / 1000)
+                                .toFixed(0)
+                                .padStart(2, "0")}{" "}
+                              - {event.type}
+                            </div>
+                          ))}
+                      </div>
+                    </div>
+                  )}
+              </div>
+            ) : (
+              <div style={{ color: "#000", textAlign: "center", padding: 40 }}>
+                Failed to load match details
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import role helpers
+import { ROLE_LABELS, RoleStats } from "../utils/roles";
+
+// Role distribution: share of games per role as bars, with the player's
+// winrate, KDA, CS/min, damage share and vision per minute in each role
+export default function RoleDistribution({ roles }: { roles: RoleStats[] }) {
+  const totalGames = roles.reduce((total, role) => total + role.games, 0);
+
+  const cellStyle: React.CSSProperties = {
+    padding: "4px 6px",
+    textAlign: "right",
+    whiteSpace: "nowrap",
+  };
+
+  return (
+    <table
+      style={{
+        width: "100%",
+        borderCollapse: "collapse",
+        fontSize: "12px",
+        color: "#333",
+      }}
+    >
+      <thead>
+        <tr style={{ color: "#666", borderBottom: "1px solid #ddd" }}>
+          <th style={{ ...cellStyle, textAlign: "left" }}>Role</th>
+          <th style={{ ...cellStyle, textAlign: "left", width: "30%" }}>
+            Games
+          </th>
+          <th style={cellStyle}>WR</th>
+          <th style={cellStyle}>KDA</th>
+          <th style={cellStyle}>CS/min</th>
+          <th style={cellStyle} title="Share of the team's damage to champions">
+            Dmg %
+          </th>
+          <th style={cellStyle}>Vision/min</th>
+        </tr>
+      </thead>
+      <tbody>
+        {roles.map((role) => {
+          const share = totalGames > 0 ? (role.games / totalGames) * 100 : 0;
+          return (
+            <tr key={role.role} style={{ borderBottom: "1px solid #eee" }}>
+              <td
+                style={{ ...cellStyle, textAlign: "left", fontWeight: "bold" }}
+              >
+                {ROLE_LABELS[role.role] || role.role}
+              </td>
+              <td style={{ ...cellStyle, textAlign: "left" }}>
+                {/* Bar showing the role's share of all games */}
+                <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                  <div
+                    style={{
+                      flex: 1,
+                      height: 8,
+                      backgroundColor: "#e9ecef",
+                      borderRadius: 4,
+                      overflow: "hidden",
+                    }}
+                  >
+                    <div
+                      style={{
+                        width: `${share}%`,
+                        height: "100%",
+                        backgroundColor: "#0066cc",
+                      }}
+                    />
+                  </div>
+                  {role.games}
+                </div>
+              </td>
+              <td
+                style={{
+                  ...cellStyle,
+                  color: Number(role.winrate) >= 50 ? "#28a745" : "#dc3545",
+                }}
+              >
+                {role.winrate}%
+              </td>
+              <td style={cellStyle}>{role.kda}</td>
+              <td style={cellStyle}>{role.csPerMinute}</td>
+              <td style={cellStyle}>{role.damageShare}%</td>
+              <td style={cellStyle}>{role.visionPerMinute}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
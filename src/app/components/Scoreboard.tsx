@@ -0,0 +1,287 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import Data Dragon and static data helpers
+import { getImageUrl } from "../utils/dataDragon";
+import { ItemData } from "../utils/itemMapping";
+import type { RunePage } from "../utils/runeMapping";
+import type { SummonerSpellInfo } from "../utils/spellMapping";
+import ItemSlot from "./ItemSlot";
+import PerformanceBadge from "./PerformanceBadge";
+import type { PerformanceRating } from "../utils/performance";
+
+// Interface for one participant in the scoreboard from /api/lol-match-details
+export interface ScoreboardPlayer {
+  puuid: string;
+  riotIdGameName: string;
+  riotIdTagline: string;
+  isCurrentPlayer: boolean;
+  championName: string;
+  championLevel: number;
+  teamPosition: string;
+  kills: number;
+  deaths: number;
+  assists: number;
+  kda: string;
+  totalDamageDealtToChampions: number;
+  goldEarned: number;
+  cs: number;
+  visionScore: number;
+  items: number[]; // Six inventory slots, 0 for empty
+  trinket: number;
+  summonerSpells: SummonerSpellInfo[];
+  runes: RunePage;
+  performance: PerformanceRating;
+}
+
+// Interface for one team in the scoreboard
+export interface ScoreboardTeam {
+  teamId: number; // 100 for blue side, 200 for red side
+  win: boolean;
+  players: ScoreboardPlayer[];
+  totals: {
+    kills: number;
+    deaths: number;
+    assists: number;
+    totalDamageDealtToChampions: number;
+    goldEarned: number;
+    cs: number;
+    visionScore: number;
+  };
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+};
+
+// Small square icon with a tooltip, grey when the icon is unknown
+function SmallIcon({
+  src,
+  title,
+  size = 16,
+}: {
+  src: string | null;
+  title: string;
+  size?: number;
+}) {
+  return src ? (
+    <div
+      role="img"
+      aria-label={title}
+      title={title}
+      style={{
+        width: size,
+        height: size,
+        borderRadius: 2,
+        backgroundImage: `url(${src})`,
+        backgroundSize: "cover",
+      }}
+    />
+  ) : (
+    <div
+      title={title}
+      style={{
+        width: size,
+        height: size,
+        borderRadius: 2,
+        backgroundColor: "#e9ecef",
+      }}
+    />
+  );
+}
+
+// Ten-player scoreboard of a match, one table per team
+// The searched player's row is highlighted
+export default function Scoreboard({
+  teams,
+  items,
+  version,
+}: {
+  teams: ScoreboardTeam[];
+  items: { [key: string]: ItemData };
+  version: string;
+}) {
+  return (
+    <div style={{ fontSize: "12px", color: "#000" }}>
+      {teams.map((team) => {
+        const teamColor = team.teamId === 100 ? "#0066cc" : "#cc0000";
+
+        return (
+          <div
+            key={team.teamId}
+            style={{ marginBottom: 16, overflowX: "auto" }}
+          >
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr
+                  style={{
+                    borderBottom: `2px solid ${teamColor}`,
+                    color: "#666",
+                  }}
+                >
+                  <th
+                    style={{
+                      ...cellStyle,
+                      textAlign: "left",
+                      color: teamColor,
+                    }}
+                  >
+                    {team.teamId === 100 ? "Blue Team" : "Red Team"} -{" "}
+                    <span style={{ color: team.win ? "#28a745" : "#dc3545" }}>
+                      {team.win ? "Victory" : "Defeat"}
+                    </span>
+                  </th>
+                  <th style={cellStyle}>Rating</th>
+                  <th style={cellStyle}>KDA</th>
+                  <th style={cellStyle}>Damage</th>
+                  <th style={cellStyle}>Gold</th>
+                  <th style={cellStyle}>CS</th>
+                  <th style={cellStyle}>Vision</th>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Items</th>
+                </tr>
+              </thead>
+              <tbody>
+                {team.players.map((player) => (
+                  <tr
+                    key={player.puuid}
+                    style={{
+                      backgroundColor: player.isCurrentPlayer
+                        ? "#ffffcc"
+                        : "transparent",
+                      outline: player.isCurrentPlayer
+                        ? "2px solid #ffcc00"
+                        : "none",
+                      borderBottom: "1px solid #eee",
+                    }}
+                  >
+                    {/* Champion, spells, runes and name */}
+                    <td style={{ ...cellStyle, textAlign: "left" }}>
+                      <div
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: 6,
+                        }}
+                      >
+                        <div style={{ position: "relative" }}>
+                          <SmallIcon
+                            src={getImageUrl(
+                              version,
+                              "champion",
+                              `${player.championName}.png`
+                            )}
+                            title={player.championName}
+                            size={32}
+                          />
+                          <span
+                            style={{
+                              position: "absolute",
+                              right: -2,
+                              bottom: -2,
+                              fontSize: 9,
+                              backgroundColor: "#333",
+                              color: "white",
+                              borderRadius: 3,
+                              padding: "0 2px",
+                            }}
+                          >
+                            {player.championLevel}
+                          </span>
+                        </div>
+                        <div style={{ display: "grid", gap: 1 }}>
+                          {player.summonerSpells.map((spell) => (
+                            <SmallIcon
+                              key={spell.id}
+                              src={spell.icon}
+                              title={spell.name}
+                            />
+                          ))}
+                        </div>
+                        <div style={{ display: "grid", gap: 1 }}>
+                          <SmallIcon
+                            src={player.runes.primaryRunes[0]?.icon ?? null}
+                            title={player.runes.primaryRunes[0]?.name ?? ""}
+                          />
+                          <SmallIcon
+                            src={player.runes.secondaryStyle.icon}
+                            title={player.runes.secondaryStyle.name}
+                          />
+                        </div>
+                        <span
+                          style={{
+                            fontWeight: player.isCurrentPlayer
+                              ? "bold"
+                              : "normal",
+                          }}
+                          title={
+                            player.riotIdTagline
+                              ? `${player.riotIdGameName}#${player.riotIdTagline}`
+                              : player.riotIdGameName
+                          }
+                        >
+                          {player.riotIdGameName}
+                        </span>
+                      </div>
+                    </td>
+                    <td style={cellStyle}>
+                      <PerformanceBadge rating={player.performance} />
+                    </td>
+                    <td style={cellStyle}>
+                      {player.kills}/{player.deaths}/{player.assists}
+                      <div style={{ color: "#666" }}>{player.kda}</div>
+                    </td>
+                    <td style={cellStyle}>
+                      {player.totalDamageDealtToChampions.toLocaleString()}
+                    </td>
+                    <td style={cellStyle}>
+                      {player.goldEarned.toLocaleString()}
+                    </td>
+                    <td style={cellStyle}>{player.cs}</td>
+                    <td style={cellStyle}>{player.visionScore}</td>
+                    <td style={{ ...cellStyle, textAlign: "left" }}>
+                      <div style={{ display: "flex", gap: 2 }}>
+                        {[...player.items, player.trinket].map(
+                          (itemId, idx) => (
+                            <ItemSlot
+                              key={idx}
+                              itemId={itemId}
+                              items={items}
+                              version={version}
+                              size={22}
+                            />
+                          )
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+
+                {/* Team totals */}
+                <tr style={{ fontWeight: "bold", color: teamColor }}>
+                  <td style={{ ...cellStyle, textAlign: "left" }}>Total</td>
+                  <td style={cellStyle} />
+                  <td style={cellStyle}>
+                    {team.totals.kills}/{team.totals.deaths}/
+                    {team.totals.assists}
+                  </td>
+                  <td style={cellStyle}>
+                    {team.totals.totalDamageDealtToChampions.toLocaleString()}
+                  </td>
+                  <td style={cellStyle}>
+                    {team.totals.goldEarned.toLocaleString()}
+                  </td>
+                  <td style={cellStyle}>{team.totals.cs}</td>
+                  <td style={cellStyle}>{team.totals.visionScore}</td>
+                  <td style={cellStyle} />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+// Import React hooks for state management
+import React, { useState, useTransition } from "react";
+// Import the Next.js router for navigating to player profiles
+import { useRouter } from "next/navigation";
+// Import the list of selectable platforms and profile URL helper
+import { DEFAULT_PLATFORM, PLATFORMS } from "../utils/regions";
+import { getPlayerPath } from "../utils/playerRoutes";
+
+// Riot ID search form - navigates to the searched player's profile page
+export default function SearchForm({
+  initialGameName = "",
+  initialTagLine = "",
+  initialPlatform = DEFAULT_PLATFORM,
+}: {
+  initialGameName?: string;
+  initialTagLine?: string;
+  initialPlatform?: string;
+}) {
+  const router = useRouter();
+  // State for form inputs - gameName is the username part of Riot ID
+  const [gameName, setGameName] = useState(initialGameName);
+  // State for tagline - the part after the # in Riot ID
+  const [tagLine, setTagLine] = useState(initialTagLine);
+  // State for the platform (server) the player's account lives on, e.g. euw1
+  const [platform, setPlatform] = useState(initialPlatform);
+  // Pending state while the profile page is loading
+  const [isPending, startTransition] = useTransition();
+
+  // Handler for form submission - called when user clicks search button
+  const handleSubmit = (e: React.FormEvent) => {
+    // Prevent default form submission behavior
+    e.preventDefault();
+    // Push a new history entry so back/forward move between searched players
+    startTransition(() => {
+      router.push(getPlayerPath(platform, gameName.trim(), tagLine.trim()));
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        marginBottom: 32,
+        padding: 24,
+        border: "1px solid #ddd",
+        borderRadius: 8,
+      }}
+    >
+      <div style={{ marginBottom: 16 }}>
+        <label
+          style={{ display: "block", marginBottom: 8, fontWeight: "bold" }}
+        >
+          Username (gameName):{" "}
+          <input
+            type="text"
+            value={gameName}
+            onChange={(e) => setGameName(e.target.value)}
+            required
+            placeholder="e.g. pikachu"
+            style={{
+              width: "100%",
+              padding: 8,
+              border: "1px solid #ccc",
+              borderRadius: 4,
+              marginTop: 4,
+            }}
+          />
+        </label>
+      </div>
+
+      <div style={{ marginBottom: 16 }}>
+        <label
+          style={{ display: "block", marginBottom: 8, fontWeight: "bold" }}
+        >
+          Tagline (tagLine):{" "}
+          <input
+            type="text"
+            value={tagLine}
+            onChange={(e) => setTagLine(e.target.value)}
+            required
+            placeholder="e.g. 001"
+            style={{
+              width: "100%",
+              padding: 8,
+              border: "1px solid #ccc",
+              borderRadius: 4,
+              marginTop: 4,
+            }}
+          />
+        </label>
+      </div>
+
+      <div style={{ marginBottom: 16 }}>
+        <label
+          style={{ display: "block", marginBottom: 8, fontWeight: "bold" }}
+        >
+          Region (platform):{" "}
+          <select
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value)}
+            style={{
+              width: "100%",
+              padding: 8,
+              border: "1px solid #ccc",
+              borderRadius: 4,
+              marginTop: 4,
+            }}
+          >
+            {PLATFORMS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label} ({p.id.toUpperCase()})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Submit button with loading state */}
+      <button
+        type="submit"
+        disabled={isPending}
+        style={{
+          width: "100%",
+          padding: 12,
+          backgroundColor: isPending ? "#ccc" : "#007bff",
+          color: "white",
+          border: "none",
+          borderRadius: 4,
+          cursor: isPending ? "not-allowed" : "pointer",
+          fontSize: 16,
+        }}
+      >
+        {isPending ? "Loading..." : "Search Match History"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+// Import React for JSX
+import React from "react";
+// Import the shapes returned by /api/lol-match-details
+import type { RunePage, RunePageEntry } from "../utils/runeMapping";
+import type { SummonerSpellInfo } from "../utils/spellMapping";
+
+// Icon with a hover tooltip - entries without an icon show a grey placeholder
+function EntryIcon({
+  entry,
+  size,
+  round = false,
+}: {
+  entry: RunePageEntry | SummonerSpellInfo;
+  size: number;
+  round?: boolean;
+}) {
+  const title = entry.description
+    ? `${entry.name}\n\n${entry.description.replace(/<[^>]+>/g, "")}`
+    : entry.name;
+
+  return entry.icon ? (
+    <div
+      role="img"
+      aria-label={entry.name}
+      title={title}
+      style={{
+        width: size,
+        height: size,
+        borderRadius: round ? "50%" : 4,
+        backgroundImage: `url(${entry.icon})`,
+        backgroundSize: "cover",
+      }}
+    />
+  ) : (
+    <div
+      title={title}
+      style={{
+        width: size,
+        height: size,
+        borderRadius: round ? "50%" : 4,
+        backgroundColor: "#e9ecef",
+        border: "1px solid #ddd",
+      }}
+    />
+  );
+}
+
+// One rune tree: the tree icon and name followed by the chosen runes
+function RuneTree({
+  style,
+  runes,
+}: {
+  style: RunePageEntry;
+  runes: RunePageEntry[];
+}) {
+  return (
+    <div
+      style={{
+        flex: 1,
+        padding: 8,
+        backgroundColor: "#f8f9fa",
+        borderRadius: 4,
+        border: "1px solid #ddd",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 6,
+          fontWeight: "bold",
+          marginBottom: 8,
+        }}
+      >
+        <EntryIcon entry={style} size={20} />
+        {style.name}
+      </div>
+      {runes.map((rune, idx) => (
+        <div
+          key={rune.id}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            marginBottom: 4,
+          }}
+        >
+          {/* The first rune of the primary tree is the keystone */}
+          <EntryIcon
+            entry={rune}
+            size={idx === 0 && runes.length > 2 ? 36 : 28}
+            round
+          />
+          <span>{rune.name}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Summoner spells and the full rune page of a player in one match
+export default function SpellsAndRunes({
+  spells,
+  runes,
+}: {
+  spells: SummonerSpellInfo[];
+  runes: RunePage;
+}) {
+  return (
+    <div style={{ fontSize: "12px", color: "#000" }}>
+      {/* Summoner spells */}
+      <div style={{ display: "flex", gap: 12, marginBottom: 12 }}>
+        {spells.map((spell) => (
+          <div
+            key={spell.id}
+            style={{ display: "flex", alignItems: "center", gap: 6 }}
+          >
+            <EntryIcon entry={spell} size={32} />
+            <strong>{spell.name}</strong>
+          </div>
+        ))}
+      </div>
+
+      {/* Primary and secondary trees */}
+      <div style={{ display: "flex", gap: 12, marginBottom: 8 }}>
+        <RuneTree style={runes.primaryStyle} runes={runes.primaryRunes} />
+        <RuneTree style={runes.secondaryStyle} runes={runes.secondaryRunes} />
+      </div>
+
+      {/* Stat shards */}
+      <div style={{ color: "#666" }}>
+        <strong>Shards:</strong>{" "}
+        {runes.statShards.map((shard) => shard.name).join(" / ")}
+      </div>
+    </div>
+  );
+}
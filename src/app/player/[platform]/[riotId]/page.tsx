@@ -0,0 +1,129 @@
+// Import Next.js Link component and the not-found helper
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+// Import the search form and the profile sections
+import SearchForm from "../../../components/SearchForm";
+import PlayerProfile from "../../../components/PlayerProfile";
+// Import platform and profile URL helpers
+import { getPlatform } from "../../../utils/regions";
+import { parseRiotIdSegment } from "../../../utils/playerRoutes";
+
+// Route params for /player/[platform]/[gameName]-[tagLine]
+interface PlayerPageProps {
+  params: Promise<{ platform: string; riotId: string }>;
+}
+
+// Resolve the route params, returning null for unknown platforms or IDs
+const resolvePlayer = async (params: PlayerPageProps["params"]) => {
+  const { platform: platformId, riotId } = await params;
+  const platform = getPlatform(platformId);
+  const parsed = parseRiotIdSegment(riotId);
+  if (!platform || !parsed) return null;
+
+  return { platform: platform.id, ...parsed };
+};
+
+// Page title shows the Riot ID, e.g. "pikachu#001 (NA1)"
+export async function generateMetadata({
+  params,
+}: PlayerPageProps): Promise<Metadata> {
+  const player = await resolvePlayer(params);
+  if (!player) return { title: "Player not found" };
+
+  return {
+    title: `${player.gameName}#${
+      player.tagLine
+    } (${player.platform.toUpperCase()}) - League of Legends Match History`,
+  };
+}
+
+// Shareable player profile page
+export default async function PlayerPage({ params }: PlayerPageProps) {
+  const player = await resolvePlayer(params);
+  if (!player) notFound();
+
+  // Key on the player so switching profiles starts with fresh state
+  const playerKey = `${player.platform}/${player.gameName}#${player.tagLine}`;
+
+  return (
+    <main
+      style={{
+        maxWidth: 1400,
+        margin: "0 auto",
+        padding: 32,
+        fontFamily: "Arial, sans-serif",
+      }}
+    >
+      {/* Navigation */}
+      <div style={{ textAlign: "center", marginBottom: 24 }}>
+        <Link
+          href="/"
+          style={{
+            marginRight: 16,
+            padding: "8px 16px",
+            backgroundColor: "#007bff",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Match History
+        </Link>
+        <Link
+          href="/champions"
+          style={{
+            marginRight: 16,
+            padding: "8px 16px",
+            backgroundColor: "#28a745",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Champions
+        </Link>
+        <Link
+          href="/compare"
+          style={{
+            padding: "8px 16px",
+            backgroundColor: "#6f42c1",
+            color: "white",
+            textDecoration: "none",
+            borderRadius: 4,
+            fontWeight: "bold",
+          }}
+        >
+          Compare
+        </Link>
+      </div>
+
+      {/* Player title */}
+      <h1 style={{ textAlign: "center", color: "#333", marginBottom: 32 }}>
+        {player.gameName}
+        <span style={{ color: "#888" }}>#{player.tagLine}</span>{" "}
+        <span style={{ fontSize: 18, color: "#666" }}>
+          ({player.platform.toUpperCase()})
+        </span>
+      </h1>
+
+      {/* Search form, prefilled with the current player */}
+      <SearchForm
+        key={`search-${playerKey}`}
+        initialGameName={player.gameName}
+        initialTagLine={player.tagLine}
+        initialPlatform={player.platform}
+      />
+
+      {/* History, ranked, winrate and mastery sections */}
+      <PlayerProfile
+        key={playerKey}
+        gameName={player.gameName}
+        tagLine={player.tagLine}
+        platform={player.platform}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,13 @@
+// Shared JSON responses for the API routes (server-side only)
+import { NextResponse } from "next/server";
+
+// Response for a Riot API rate limit (429), shown to the user as is
+export function rateLimitResponse(details?: string) {
+  return NextResponse.json(
+    {
+      error: "Rate limit exceeded. Please wait a moment and try again.",
+      ...(details ? { details } : {}),
+    },
+    { status: 429 }
+  );
+}
@@ -0,0 +1,102 @@
+// Item build and skill order reconstruction from match timelines
+import type { TimelineDto, TimelineEventDto } from "./riotApi";
+
+// Purchases further apart than this start a new back (shop visit)
+const BACK_GAP_MS = 60 * 1000;
+
+// Interface for one step of the build path
+export interface BuildEntry {
+  itemId: number;
+  timestamp: number; // Milliseconds into the game
+  action: "buy" | "sell";
+}
+
+// Interface for the purchases and sales made during one shop visit
+export interface BuildGroup {
+  timestamp: number; // Time of the first entry
+  entries: BuildEntry[];
+}
+
+// Get every item event of one participant, in game order
+const getItemEvents = (timeline: TimelineDto, participantId: number) =>
+  timeline.info.frames
+    .flatMap((frame) => frame.events)
+    .filter(
+      (event: TimelineEventDto) =>
+        event.participantId === participantId &&
+        ["ITEM_PURCHASED", "ITEM_SOLD", "ITEM_UNDO"].includes(event.type)
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Reconstruct a player's purchases and sales, grouped by back
+// ITEM_UNDO removes the step it reverts: undoing a purchase reports the
+// item as beforeId, undoing a sale reports it as afterId
+export function getItemBuild(
+  timeline: TimelineDto,
+  participantId: number
+): BuildGroup[] {
+  const entries: BuildEntry[] = [];
+
+  // Remove the latest entry matching action/itemId, if there is one
+  const removeLast = (action: BuildEntry["action"], itemId: number) => {
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i].action === action && entries[i].itemId === itemId) {
+        entries.splice(i, 1);
+        return;
+      }
+    }
+  };
+
+  getItemEvents(timeline, participantId).forEach((event) => {
+    if (event.type === "ITEM_PURCHASED" && event.itemId) {
+      entries.push({
+        itemId: event.itemId,
+        timestamp: event.timestamp,
+        action: "buy",
+      });
+    } else if (event.type === "ITEM_SOLD" && event.itemId) {
+      entries.push({
+        itemId: event.itemId,
+        timestamp: event.timestamp,
+        action: "sell",
+      });
+    } else if (event.type === "ITEM_UNDO") {
+      if (event.beforeId) removeLast("buy", event.beforeId);
+      else if (event.afterId) removeLast("sell", event.afterId);
+    }
+  });
+
+  // Split into backs wherever the gap between two steps is large
+  const groups: BuildGroup[] = [];
+  entries.forEach((entry, idx) => {
+    if (
+      idx === 0 ||
+      entry.timestamp - entries[idx - 1].timestamp > BACK_GAP_MS
+    ) {
+      groups.push({ timestamp: entry.timestamp, entries: [] });
+    }
+    groups[groups.length - 1].entries.push(entry);
+  });
+
+  return groups;
+}
+
+// Get the order a player levelled their abilities in
+// Each value is a skill slot: 1 = Q, 2 = W, 3 = E, 4 = R
+// EVOLVE level-ups (e.g. Kha'Zix evolutions) are not ability ranks
+export function getSkillOrder(
+  timeline: TimelineDto,
+  participantId: number
+): number[] {
+  return timeline.info.frames
+    .flatMap((frame) => frame.events)
+    .filter(
+      (event) =>
+        event.type === "SKILL_LEVEL_UP" &&
+        event.participantId === participantId &&
+        event.levelUpType !== "EVOLVE" &&
+        event.skillSlot
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((event) => event.skillSlot!);
+}
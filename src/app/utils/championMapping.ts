@@ -1,31 +1,76 @@
 // Champion mapping utility functions
+import { getDataUrl, getImageUrl, getLatestVersion } from "./dataDragon";
 
 // Interface for champion data
 export interface ChampionData {
-  id: string;
+  id: string; // Data Dragon ID, e.g. "MonkeyKing"
+  key: string; // Numeric champion ID as a string, e.g. "62"
   name: string;
   title: string;
   image: {
     full: string;
   };
+  tags: string[]; // Classes, e.g. ["Fighter", "Tank"]
+  partype: string; // Resource, e.g. "Mana", "Energy"
+  info: {
+    attack: number;
+    defense: number;
+    magic: number;
+    difficulty: number;
+  };
 }
 
-// Cache for champion data to avoid repeated API calls
-let championCache: { [key: string]: ChampionData } | null = null;
+// Interface for one ability from the per-champion data file
+export interface ChampionSpell {
+  id: string;
+  name: string;
+  description: string; // HTML-like markup
+  maxrank: number;
+  cooldown: number[]; // Seconds, one value per rank
+  cost: number[];
+  costType: string;
+  range: number[];
+  image: {
+    full: string;
+  };
+}
 
-// Fetch champion data from Data Dragon API
+// Interface for the full data of one champion (champion/<id>.json)
+export interface ChampionDetails extends ChampionData {
+  lore: string;
+  allytips: string[];
+  enemytips: string[];
+  skins: { id: string; num: number; name: string }[];
+  // Base values and per-level growth, e.g. hp and hpperlevel
+  stats: { [stat: string]: number };
+  passive: {
+    name: string;
+    description: string;
+    image: {
+      full: string;
+    };
+  };
+  spells: ChampionSpell[]; // Q, W, E, R
+}
+
+// Cache for champion data per Data Dragon version to avoid repeated API calls
+// Keyed by version so a new patch (and its new champions) is picked up
+const championCache: { [version: string]: { [key: string]: ChampionData } } =
+  {};
+
+// Fetch champion data for the current Data Dragon version
 export async function fetchChampionData(): Promise<{
   [key: string]: ChampionData;
 }> {
+  const version = await getLatestVersion();
+
   // Return cached data if available
-  if (championCache) {
-    return championCache;
+  if (championCache[version]) {
+    return championCache[version];
   }
 
   try {
-    const response = await fetch(
-      "https://ddragon.leagueoflegends.com/cdn/14.15.1/data/en_US/champion.json"
-    );
+    const response = await fetch(getDataUrl(version, "champion.json"));
 
     if (!response.ok) {
       throw new Error("Failed to fetch champion data");
@@ -41,14 +86,18 @@ export async function fetchChampionData(): Promise<{
       const champ = champion as any;
       championMapping[champ.key] = {
         id: champ.id,
+        key: champ.key,
         name: champ.name,
         title: champ.title,
         image: champ.image,
+        tags: champ.tags,
+        partype: champ.partype,
+        info: champ.info,
       };
     });
 
     // Cache the data
-    championCache = championMapping;
+    championCache[version] = championMapping;
 
     return championMapping;
   } catch (error) {
@@ -67,13 +116,14 @@ export async function getChampionName(championId: string): Promise<string> {
 export async function getChampionImageUrl(championId: string): Promise<string> {
   const championData = await fetchChampionData();
   const champion = championData[championId];
+  const version = await getLatestVersion();
 
   if (champion) {
-    return `https://ddragon.leagueoflegends.com/cdn/14.15.1/img/champion/${champion.image.full}`;
+    return getImageUrl(version, "champion", champion.image.full);
   }
 
   // Return a placeholder image if champion not found
-  return "https://ddragon.leagueoflegends.com/cdn/14.15.1/img/champion/Aatrox.png";
+  return getImageUrl(version, "champion", "Aatrox.png");
 }
 
 // Get all champion data
@@ -83,3 +133,55 @@ export async function getAllChampions(): Promise<ChampionData[]> {
     a.name.localeCompare(b.name)
   );
 }
+
+// Cache for per-champion data, keyed by version and champion ID
+const championDetailsCache: { [versionAndId: string]: ChampionDetails } = {};
+
+// Fetch the full data of one champion by Data Dragon ID (e.g. "MonkeyKing")
+// The ID is matched case-insensitively; returns null for unknown champions
+export async function fetchChampionDetails(
+  id: string
+): Promise<ChampionDetails | null> {
+  // Look the champion up in champion.json first, so unknown IDs never
+  // reach Data Dragon and "/champions/ahri" finds "Ahri"
+  const known = Object.values(await fetchChampionData()).find(
+    (champion) => champion.id.toLowerCase() === id.toLowerCase()
+  );
+  if (!known) {
+    return null;
+  }
+
+  const championId = known.id;
+  const version = await getLatestVersion();
+  const cacheKey = `${version}/${championId}`;
+
+  // Return cached data if available
+  if (championDetailsCache[cacheKey]) {
+    return championDetailsCache[cacheKey];
+  }
+
+  try {
+    const response = await fetch(
+      getDataUrl(version, `champion/${championId}.json`)
+    );
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data: { data: { [id: string]: ChampionDetails } } =
+      await response.json();
+    const champion = data.data[championId];
+    if (!champion) {
+      return null;
+    }
+
+    // Cache the data
+    championDetailsCache[cacheKey] = champion;
+
+    return champion;
+  } catch (error) {
+    console.error("Error fetching champion details:", error);
+    return null;
+  }
+}
@@ -0,0 +1,12 @@
+// Personal champion overlay types (safe to import from client and server)
+
+// Interface for one champion in the personal overlay, from
+// /api/lol-champion-overlay (keyed by champion key)
+export interface ChampionOverlayEntry {
+  championLevel: number; // 0 if the player has no mastery
+  championPoints: number;
+  lastPlayTime: number | null; // Epoch milliseconds, null if never played
+  games: number; // In the player's recent matches
+  wins: number;
+  winrate: string | null; // null without recent games
+}
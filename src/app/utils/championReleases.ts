@@ -0,0 +1,184 @@
+// Champion release dates (safe to import from client and server)
+
+// Release date of each champion (yyyy-mm-dd), keyed by Data Dragon champion ID
+// Data Dragon has no release dates and champion keys are not assigned in
+// release order, so this list is maintained by hand - add new champions at
+// the bottom when they are released
+const CHAMPION_RELEASE_DATES: { [championId: string]: string } = {
+  Alistar: "2009-02-21",
+  Annie: "2009-02-21",
+  Ashe: "2009-02-21",
+  Fiddlesticks: "2009-02-21",
+  Jax: "2009-02-21",
+  Kayle: "2009-02-21",
+  MasterYi: "2009-02-21",
+  Morgana: "2009-02-21",
+  Nunu: "2009-02-21",
+  Ryze: "2009-02-21",
+  Sion: "2009-02-21",
+  Sivir: "2009-02-21",
+  Soraka: "2009-02-21",
+  Teemo: "2009-02-21",
+  Tristana: "2009-02-21",
+  TwistedFate: "2009-02-21",
+  Warwick: "2009-02-21",
+  Singed: "2009-04-18",
+  Zilean: "2009-04-18",
+  Evelynn: "2009-05-01",
+  Tryndamere: "2009-05-01",
+  Twitch: "2009-05-01",
+  Karthus: "2009-06-12",
+  Amumu: "2009-06-26",
+  Chogath: "2009-06-26",
+  Anivia: "2009-07-10",
+  Rammus: "2009-07-10",
+  Veigar: "2009-07-24",
+  Kassadin: "2009-08-07",
+  Gangplank: "2009-08-19",
+  Taric: "2009-08-19",
+  Blitzcrank: "2009-09-02",
+  DrMundo: "2009-09-02",
+  Janna: "2009-09-02",
+  Malphite: "2009-09-02",
+  Corki: "2009-09-19",
+  Katarina: "2009-09-19",
+  Nasus: "2009-10-01",
+  Heimerdinger: "2009-10-10",
+  Shaco: "2009-10-10",
+  Udyr: "2009-12-02",
+  Nidalee: "2009-12-17",
+  Poppy: "2010-01-13",
+  Gragas: "2010-02-02",
+  Pantheon: "2010-02-02",
+  Mordekaiser: "2010-02-24",
+  Ezreal: "2010-03-16",
+  Shen: "2010-03-24",
+  Kennen: "2010-04-08",
+  Garen: "2010-04-27",
+  Akali: "2010-05-11",
+  Malzahar: "2010-06-01",
+  Olaf: "2010-06-09",
+  KogMaw: "2010-06-24",
+  XinZhao: "2010-07-13",
+  Vladimir: "2010-07-27",
+  Galio: "2010-08-10",
+  Urgot: "2010-08-24",
+  MissFortune: "2010-09-08",
+  Sona: "2010-09-21",
+  Swain: "2010-10-05",
+  Lux: "2010-10-19",
+  Leblanc: "2010-11-02",
+  Irelia: "2010-11-16",
+  Trundle: "2010-12-01",
+  Cassiopeia: "2010-12-14",
+  Caitlyn: "2011-01-04",
+  Renekton: "2011-01-18",
+  Karma: "2011-02-01",
+  Maokai: "2011-02-16",
+  JarvanIV: "2011-03-01",
+  Nocturne: "2011-03-15",
+  LeeSin: "2011-04-01",
+  Brand: "2011-04-12",
+  Rumble: "2011-04-26",
+  Vayne: "2011-05-10",
+  Orianna: "2011-06-01",
+  Yorick: "2011-06-22",
+  Leona: "2011-07-13",
+  MonkeyKing: "2011-07-26",
+  Skarner: "2011-08-09",
+  Talon: "2011-08-24",
+  Riven: "2011-09-14",
+  Xerath: "2011-10-05",
+  Graves: "2011-10-19",
+  Shyvana: "2011-11-01",
+  Fizz: "2011-11-15",
+  Volibear: "2011-11-29",
+  Ahri: "2011-12-14",
+  Viktor: "2011-12-29",
+  Sejuani: "2012-01-17",
+  Ziggs: "2012-02-01",
+  Nautilus: "2012-02-14",
+  Fiora: "2012-02-29",
+  Lulu: "2012-03-20",
+  Hecarim: "2012-04-18",
+  Varus: "2012-05-08",
+  Darius: "2012-05-23",
+  Draven: "2012-06-06",
+  Jayce: "2012-07-07",
+  Zyra: "2012-07-24",
+  Diana: "2012-08-07",
+  Rengar: "2012-08-21",
+  Syndra: "2012-09-13",
+  Khazix: "2012-09-27",
+  Elise: "2012-10-26",
+  Zed: "2012-11-13",
+  Nami: "2012-12-07",
+  Vi: "2012-12-19",
+  Thresh: "2013-01-23",
+  Quinn: "2013-03-01",
+  Zac: "2013-03-29",
+  Lissandra: "2013-04-30",
+  Aatrox: "2013-06-13",
+  Lucian: "2013-08-22",
+  Jinx: "2013-10-10",
+  Yasuo: "2013-12-13",
+  Velkoz: "2014-02-27",
+  Braum: "2014-05-12",
+  Gnar: "2014-08-14",
+  Azir: "2014-09-16",
+  Kalista: "2014-11-20",
+  RekSai: "2014-12-11",
+  Bard: "2015-03-12",
+  Ekko: "2015-05-28",
+  TahmKench: "2015-07-09",
+  Kindred: "2015-10-14",
+  Illaoi: "2015-11-24",
+  Jhin: "2016-02-01",
+  AurelionSol: "2016-03-24",
+  Taliyah: "2016-05-18",
+  Kled: "2016-08-10",
+  Ivern: "2016-10-05",
+  Camille: "2016-12-07",
+  Rakan: "2017-04-19",
+  Xayah: "2017-04-19",
+  Kayn: "2017-07-12",
+  Ornn: "2017-08-23",
+  Zoe: "2017-11-21",
+  Kaisa: "2018-03-07",
+  Pyke: "2018-05-31",
+  Neeko: "2018-12-05",
+  Sylas: "2019-01-25",
+  Yuumi: "2019-05-14",
+  Qiyana: "2019-06-28",
+  Senna: "2019-11-10",
+  Aphelios: "2019-12-11",
+  Sett: "2020-01-14",
+  Lillia: "2020-07-22",
+  Yone: "2020-08-06",
+  Samira: "2020-09-21",
+  Seraphine: "2020-10-29",
+  Rell: "2020-12-10",
+  Viego: "2021-01-21",
+  Gwen: "2021-04-15",
+  Akshan: "2021-07-22",
+  Vex: "2021-09-23",
+  Zeri: "2022-01-20",
+  Renata: "2022-02-17",
+  Belveth: "2022-06-09",
+  Nilah: "2022-07-13",
+  KSante: "2022-11-03",
+  Milio: "2023-03-23",
+  Naafiri: "2023-07-19",
+  Briar: "2023-09-14",
+  Hwei: "2023-12-06",
+  Smolder: "2024-01-31",
+  Aurora: "2024-07-17",
+  Ambessa: "2024-11-06",
+  Mel: "2025-01-22",
+  Yunara: "2025-07-16",
+};
+
+// Get a champion's release date, or null if it is newer than the list above
+export function getChampionReleaseDate(championId: string): string | null {
+  return CHAMPION_RELEASE_DATES[championId] ?? null;
+}
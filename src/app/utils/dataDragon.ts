@@ -0,0 +1,82 @@
+// Data Dragon version utilities
+
+// Base URL for all Data Dragon assets and data files
+export const DDRAGON_BASE = "https://ddragon.leagueoflegends.com";
+
+// Version used if versions.json cannot be reached
+export const FALLBACK_VERSION = "14.15.1";
+
+// How long the version list is cached before checking for a new patch
+const VERSIONS_TTL_MS = 60 * 60 * 1000;
+
+// Cache for the version list (newest first) to avoid repeated API calls
+let versionsCache: { versions: string[]; fetchedAt: number } | null = null;
+
+// Fetch every Data Dragon version, newest first
+export async function fetchVersions(): Promise<string[]> {
+  // Return cached data if it is still fresh
+  if (versionsCache && Date.now() - versionsCache.fetchedAt < VERSIONS_TTL_MS) {
+    return versionsCache.versions;
+  }
+
+  try {
+    const response = await fetch(`${DDRAGON_BASE}/api/versions.json`);
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch Data Dragon versions");
+    }
+
+    const versions: string[] = await response.json();
+
+    // Cache the data
+    versionsCache = { versions, fetchedAt: Date.now() };
+
+    return versions;
+  } catch (error) {
+    console.error("Error fetching Data Dragon versions:", error);
+    // Keep serving a stale list rather than nothing
+    return versionsCache?.versions ?? [FALLBACK_VERSION];
+  }
+}
+
+// Get the current (newest) Data Dragon version
+export async function getLatestVersion(): Promise<string> {
+  const versions = await fetchVersions();
+  return versions[0] || FALLBACK_VERSION;
+}
+
+// Find the Data Dragon version for the patch a match was played on
+// info.gameVersion looks like "14.15.604.5731" - its major.minor is the patch,
+// and the newest Data Dragon release for that patch holds its assets
+export function findVersionForGameVersion(
+  versions: string[],
+  gameVersion: string
+): string {
+  const [major, minor] = gameVersion.split(".");
+
+  const match = versions.find((version) =>
+    version.startsWith(`${major}.${minor}.`)
+  );
+  return match || versions[0] || FALLBACK_VERSION;
+}
+
+// Same as findVersionForGameVersion, fetching the version list first
+export async function getVersionForGameVersion(
+  gameVersion: string
+): Promise<string> {
+  return findVersionForGameVersion(await fetchVersions(), gameVersion);
+}
+
+// Build the URL of a Data Dragon data file, e.g. "champion.json"
+export function getDataUrl(version: string, file: string): string {
+  return `${DDRAGON_BASE}/cdn/${version}/data/en_US/${file}`;
+}
+
+// Build the URL of a versioned image, e.g. ("champion", "Aatrox.png")
+export function getImageUrl(
+  version: string,
+  group: string,
+  file: string
+): string {
+  return `${DDRAGON_BASE}/cdn/${version}/img/${group}/${file}`;
+}
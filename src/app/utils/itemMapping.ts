@@ -0,0 +1,84 @@
+// Item mapping utility functions
+import { getDataUrl, getImageUrl } from "./dataDragon";
+
+// Interface for item data
+export interface ItemData {
+  id: string;
+  name: string;
+  description: string; // HTML-like markup, see getItemTooltip
+  plaintext: string;
+  gold: {
+    base: number;
+    total: number;
+    sell: number;
+    purchasable: boolean;
+  };
+  image: {
+    full: string;
+  };
+  tags: string[];
+}
+
+// Cache for item data per Data Dragon version to avoid repeated API calls
+const itemCache: { [version: string]: { [key: string]: ItemData } } = {};
+
+// Fetch item data for a Data Dragon version from the Data Dragon API
+export async function fetchItemData(version: string): Promise<{
+  [key: string]: ItemData;
+}> {
+  // Return cached data if available
+  if (itemCache[version]) {
+    return itemCache[version];
+  }
+
+  try {
+    const response = await fetch(getDataUrl(version, "item.json"));
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch item data");
+    }
+
+    const data: { data: { [key: string]: Omit<ItemData, "id"> } } =
+      await response.json();
+
+    // Convert item data to mapping format, keyed by item ID
+    const itemMapping: { [key: string]: ItemData } = {};
+
+    Object.entries(data.data).forEach(([id, item]) => {
+      itemMapping[id] = {
+        id,
+        name: item.name,
+        description: item.description,
+        plaintext: item.plaintext,
+        gold: item.gold,
+        image: item.image,
+        tags: item.tags || [],
+      };
+    });
+
+    // Cache the data
+    itemCache[version] = itemMapping;
+
+    return itemMapping;
+  } catch (error) {
+    console.error("Error fetching item data:", error);
+    return {};
+  }
+}
+
+// Get item image URL
+export function getItemImageUrl(version: string, item: ItemData): string {
+  return getImageUrl(version, "item", item.image.full);
+}
+
+// Turn an item description into plain text for a tooltip
+// Data Dragon descriptions use tags like <stats>, <passive> and <br>
+export function getItemTooltip(item: ItemData): string {
+  const description = item.description
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return `${item.name} (${item.gold.total} gold)\n\n${description}`;
+}
@@ -0,0 +1,168 @@
+// Laning phase comparison against the direct lane opponent
+import type {
+  MatchDto,
+  ParticipantDto,
+  TimelineDto,
+  TimelineFrameDto,
+} from "./riotApi";
+
+// The laning phase is treated as the first 15 minutes
+const LANING_PHASE_END_MS = 15 * 60 * 1000;
+
+// Interface for the player-minus-opponent differences at one minute
+export interface LaneDiff {
+  csDiff: number;
+  goldDiff: number;
+  xpDiff: number;
+}
+
+// Interface for the laning summary of one match
+export interface LaningStats {
+  position: string; // teamPosition, e.g. "MIDDLE"
+  opponent: { championName: string; riotIdGameName: string };
+  at10: LaneDiff | null; // null if the game ended before 10 minutes
+  at15: LaneDiff | null;
+  firstBlood: "kill" | "assist" | "victim" | null;
+  firstTower: boolean; // Killed or assisted the first tower
+  soloKills: number; // Unassisted kills on the opponent before 15 minutes
+  soloDeaths: number; // Unassisted deaths to the opponent before 15 minutes
+}
+
+// Find the enemy playing the same teamPosition as the participant
+// Returns undefined in modes without lane positions (ARAM, Arena, ...)
+export function getLaneOpponent(
+  match: MatchDto,
+  participant: ParticipantDto
+): ParticipantDto | undefined {
+  if (!participant.teamPosition) return undefined;
+  return match.info.participants.find(
+    (p) =>
+      p.teamId !== participant.teamId &&
+      p.teamPosition === participant.teamPosition
+  );
+}
+
+// Differences at the frame for `minute`, or null if the game was shorter
+const getDiffAt = (
+  frames: TimelineFrameDto[],
+  minute: number,
+  playerId: number,
+  opponentId: number
+): LaneDiff | null => {
+  // Frames are one minute apart, except the last one which is the end of
+  // the game - so frames[minute] may be earlier than `minute` in short games
+  const frame = frames[minute];
+  if (!frame || frame.timestamp < minute * 60 * 1000) return null;
+
+  const player = frame.participantFrames[playerId];
+  const opponent = frame.participantFrames[opponentId];
+  if (!player || !opponent) return null;
+
+  return {
+    csDiff:
+      player.minionsKilled +
+      player.jungleMinionsKilled -
+      (opponent.minionsKilled + opponent.jungleMinionsKilled),
+    goldDiff: player.totalGold - opponent.totalGold,
+    xpDiff: player.xp - opponent.xp,
+  };
+};
+
+// Compare a player's laning phase to their direct lane opponent
+// Returns null when the match has no lane opponent for the player
+export function getLaningStats(
+  match: MatchDto,
+  timeline: TimelineDto,
+  puuid: string
+): LaningStats | null {
+  const participant = match.info.participants.find((p) => p.puuid === puuid);
+  if (!participant) return null;
+  const opponent = getLaneOpponent(match, participant);
+  if (!opponent) return null;
+
+  const playerId = participant.participantId;
+  const opponentId = opponent.participantId;
+  const frames = timeline.info.frames;
+  const kills = frames
+    .flatMap((frame) => frame.events)
+    .filter((event) => event.type === "CHAMPION_KILL")
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  // First blood: the kill flags are on the participant, being the victim
+  // has to be read from the first kill event
+  let firstBlood: LaningStats["firstBlood"] = null;
+  if (participant.firstBloodKill) firstBlood = "kill";
+  else if (participant.firstBloodAssist) firstBlood = "assist";
+  else if (kills[0]?.victimId === playerId) firstBlood = "victim";
+
+  // Unassisted kills between the two laners during the laning phase
+  const soloKillsBetween = (killerId: number, victimId: number) =>
+    kills.filter(
+      (event) =>
+        event.timestamp <= LANING_PHASE_END_MS &&
+        event.killerId === killerId &&
+        event.victimId === victimId &&
+        !event.assistingParticipantIds?.length
+    ).length;
+
+  return {
+    position: participant.teamPosition,
+    opponent: {
+      championName: opponent.championName,
+      riotIdGameName: opponent.riotIdGameName || opponent.summonerName,
+    },
+    at10: getDiffAt(frames, 10, playerId, opponentId),
+    at15: getDiffAt(frames, 15, playerId, opponentId),
+    firstBlood,
+    firstTower: participant.firstTowerKill || participant.firstTowerAssist,
+    soloKills: soloKillsBetween(playerId, opponentId),
+    soloDeaths: soloKillsBetween(opponentId, playerId),
+  };
+}
+
+// Interface for laning stats averaged over several matches
+export interface LaningAverages {
+  games: number;
+  at10: LaneDiff | null; // Averaged over games that reached 10 minutes
+  at15: LaneDiff | null;
+  firstBloodRate: string; // Percentage of games with a first blood kill/assist
+  firstTowerRate: string;
+  soloKills: number; // Per game, one decimal
+  soloDeaths: number;
+}
+
+// Average the laning summaries of several matches
+export function getLaningAverages(stats: LaningStats[]): LaningAverages {
+  const averageDiff = (diffs: (LaneDiff | null)[]): LaneDiff | null => {
+    const present = diffs.filter((d): d is LaneDiff => d !== null);
+    if (present.length === 0) return null;
+    const avg = (field: keyof LaneDiff) =>
+      Math.round(
+        present.reduce((total, d) => total + d[field], 0) / present.length
+      );
+    return {
+      csDiff: avg("csDiff"),
+      goldDiff: avg("goldDiff"),
+      xpDiff: avg("xpDiff"),
+    };
+  };
+
+  const games = stats.length;
+  const rate = (count: number) =>
+    games > 0 ? ((count / games) * 100).toFixed(1) : "0.0";
+  const perGame = (total: number) =>
+    games > 0 ? Math.round((total / games) * 10) / 10 : 0;
+
+  return {
+    games,
+    at10: averageDiff(stats.map((s) => s.at10)),
+    at15: averageDiff(stats.map((s) => s.at15)),
+    firstBloodRate: rate(
+      stats.filter((s) => s.firstBlood === "kill" || s.firstBlood === "assist")
+        .length
+    ),
+    firstTowerRate: rate(stats.filter((s) => s.firstTower).length),
+    soloKills: perGame(stats.reduce((total, s) => total + s.soloKills, 0)),
+    soloDeaths: perGame(stats.reduce((total, s) => total + s.soloDeaths, 0)),
+  };
+}
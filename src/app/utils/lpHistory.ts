@@ -0,0 +1,149 @@
+// LP history - timestamped league entry snapshots (server-side only)
+//
+// A snapshot of every ranked entry is stored each time a player is looked
+// up. LP gained or lost in a match is the difference between the snapshots
+// taken before and after it, when exactly one game was played in between.
+import { promises as fs } from "fs";
+import path from "path";
+import type { LeagueEntryDto } from "./riotApi";
+import { getLadderLp } from "./ranks";
+
+// Directory holding the snapshots - override with LP_HISTORY_DIR in .env.local
+// Unlike the Riot API cache this data cannot be downloaded again
+const HISTORY_DIR =
+  process.env.LP_HISTORY_DIR ||
+  path.join(process.cwd(), ".cache", "lp-history");
+
+// Interface for one stored snapshot of a league entry
+export interface LpSnapshot {
+  timestamp: number; // Epoch milliseconds
+  queueType: string;
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+}
+
+// Interface for the LP result of one ranked match
+export interface LpMatchChange {
+  matchId: string;
+  timestamp: number; // Match end, epoch milliseconds
+  win: boolean;
+  lpChange: number | null; // null when several games fall between snapshots
+}
+
+// Writes currently running, so concurrent lookups of a player don't race
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+const historyPath = (platformId: string, puuid: string) =>
+  path.join(HISTORY_DIR, platformId, `${encodeURIComponent(puuid)}.json`);
+
+async function readSnapshots(file: string): Promise<LpSnapshot[]> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as LpSnapshot[];
+  } catch {
+    return [];
+  }
+}
+
+// Store a snapshot of each entry and return all snapshots, oldest first
+// An entry identical to the latest snapshot of its queue is not stored again
+// Snapshots are stamped with the current time, so pass freshly fetched
+// entries - cached ones would misplace matches that ended since
+export async function recordLeagueSnapshots(
+  platformId: string,
+  puuid: string,
+  entries: LeagueEntryDto[]
+): Promise<LpSnapshot[]> {
+  const file = historyPath(platformId, puuid);
+
+  const update = (pendingWrites.get(file) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const snapshots = await readSnapshots(file);
+      const now = Date.now();
+      let changed = false;
+
+      entries.forEach((entry) => {
+        const latest = [...snapshots]
+          .reverse()
+          .find((s) => s.queueType === entry.queueType);
+        if (
+          latest &&
+          latest.tier === entry.tier &&
+          latest.rank === entry.rank &&
+          latest.leaguePoints === entry.leaguePoints &&
+          latest.wins === entry.wins &&
+          latest.losses === entry.losses
+        ) {
+          return;
+        }
+
+        snapshots.push({
+          timestamp: now,
+          queueType: entry.queueType,
+          tier: entry.tier,
+          rank: entry.rank,
+          leaguePoints: entry.leaguePoints,
+          wins: entry.wins,
+          losses: entry.losses,
+        });
+        changed = true;
+      });
+
+      if (changed) {
+        try {
+          await fs.mkdir(path.dirname(file), { recursive: true });
+          // Write to a temp file first so a crash never loses the history
+          const tmp = `${file}.${process.pid}.tmp`;
+          await fs.writeFile(tmp, JSON.stringify(snapshots));
+          await fs.rename(tmp, file);
+        } catch (error) {
+          // History is best-effort - never fail the request because of it
+          console.error("Error writing LP history:", file, error);
+        }
+      }
+
+      return snapshots;
+    });
+
+  pendingWrites.set(file, update);
+  try {
+    return await update;
+  } finally {
+    if (pendingWrites.get(file) === update) pendingWrites.delete(file);
+  }
+}
+
+// Attribute LP changes to the ranked matches played between snapshots
+// snapshots must be from one queue, oldest first; matches are that queue's
+// matches with their end time
+export function deriveLpChanges(
+  snapshots: LpSnapshot[],
+  matches: { matchId: string; timestamp: number; win: boolean }[]
+): LpMatchChange[] {
+  const changes: LpMatchChange[] = [];
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const before = snapshots[i - 1];
+    const after = snapshots[i];
+    const between = matches.filter(
+      (match) =>
+        match.timestamp > before.timestamp && match.timestamp <= after.timestamp
+    );
+    const gamesPlayed =
+      after.wins + after.losses - (before.wins + before.losses);
+
+    // Only a single game between two snapshots can be attributed exactly
+    const lpChange =
+      gamesPlayed === 1 && between.length === 1
+        ? getLadderLp(after.tier, after.rank, after.leaguePoints) -
+          getLadderLp(before.tier, before.rank, before.leaguePoints)
+        : null;
+
+    between.forEach((match) => changes.push({ ...match, lpChange }));
+  }
+
+  return changes.sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -0,0 +1,57 @@
+// Map event extraction for the minimap
+import type { TimelineDto } from "./riotApi";
+
+// Map ID of Summoner's Rift in match-v5 (info.mapId)
+export const SUMMONERS_RIFT_MAP_ID = 11;
+
+// Size of Summoner's Rift in game coordinates (both axes, origin bottom-left)
+export const MAP_SIZE = 15000;
+
+// Interface for one event plotted on the minimap
+export interface MapEvent {
+  type: "kill" | "death" | "assist" | "ward";
+  x: number; // Game coordinates, 0 to MAP_SIZE
+  y: number;
+  timestamp: number; // Milliseconds into the game
+  matchId?: string; // Set when events from several matches are combined
+}
+
+// Get a player's kills, deaths, assists and ward placements with positions
+// WARD_PLACED events carry no coordinates, so wards use the player's
+// position from the frame the event was reported in - frames are a minute
+// apart, so ward positions can be well off and are shown as approximate
+export function getPlayerMapEvents(
+  timeline: TimelineDto,
+  participantId: number
+): MapEvent[] {
+  const events: MapEvent[] = [];
+
+  timeline.info.frames.forEach((frame) => {
+    frame.events.forEach((event) => {
+      if (event.type === "CHAMPION_KILL" && event.position) {
+        const { x, y } = event.position;
+        if (event.killerId === participantId) {
+          events.push({ type: "kill", x, y, timestamp: event.timestamp });
+        } else if (event.victimId === participantId) {
+          events.push({ type: "death", x, y, timestamp: event.timestamp });
+        } else if (event.assistingParticipantIds?.includes(participantId)) {
+          events.push({ type: "assist", x, y, timestamp: event.timestamp });
+        }
+      }
+
+      if (event.type === "WARD_PLACED" && event.creatorId === participantId) {
+        const position = frame.participantFrames[participantId]?.position;
+        if (position) {
+          events.push({
+            type: "ward",
+            x: position.x,
+            y: position.y,
+            timestamp: event.timestamp,
+          });
+        }
+      }
+    });
+  });
+
+  return events;
+}
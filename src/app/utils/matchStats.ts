@@ -0,0 +1,24 @@
+// Shared per-match stat helpers (safe to import from client and server)
+import type { MatchDto } from "./riotApi";
+
+// Games shorter than this are remakes even without an early surrender vote
+const REMAKE_DURATION_SECONDS = 180;
+
+// Whether a match was a remake - an early surrender (remake vote) or a game
+// that ended within the first three minutes
+export function isRemake(match: MatchDto): boolean {
+  return (
+    match.info.gameDuration < REMAKE_DURATION_SECONDS ||
+    match.info.participants.some((p) => p.gameEndedInEarlySurrender)
+  );
+}
+
+// KDA ratio with two decimals, e.g. "3.50" - deathless games divide by 1
+// Works for a single game and for kills, deaths and assists summed over many
+export function kdaRatio(
+  kills: number,
+  deaths: number,
+  assists: number
+): string {
+  return ((kills + assists) / Math.max(deaths, 1)).toFixed(2);
+}
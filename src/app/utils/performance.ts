@@ -0,0 +1,108 @@
+// Per-match performance rating for every participant
+//
+// Each stat is scaled against the best value in the match (deaths against
+// the most deaths, inverted), then combined with the weights below into a
+// 0-10 rating. Every player is ranked by it; the best player on the
+// winning team is the MVP and the best on the losing team the ACE.
+import type { MatchDto, ParticipantDto } from "./riotApi";
+
+// Weight of each stat in the rating - they sum to 1
+const WEIGHTS = {
+  damageShare: 0.25, // Share of the team's damage to champions
+  killParticipation: 0.2, // Share of the team's kills taken part in
+  goldEfficiency: 0.15, // Damage to champions per gold earned
+  visionPerMinute: 0.15,
+  objectiveDamage: 0.15, // Damage to buildings, dragons, barons, ...
+  deaths: 0.1, // Fewer is better
+};
+
+// Interface for one participant's rating
+export interface PerformanceRating {
+  score: number; // 0-10, one decimal
+  rank: number; // 1 is the best performance of the match
+  players: number; // Number of players ranked (10, or 16 in Arena)
+  badge: "MVP" | "ACE" | null;
+}
+
+// Rate and rank every participant of a match, keyed by participantId
+// (PUUIDs are not unique - every bot's is "BOT")
+export function getPerformanceRatings(match: MatchDto): {
+  [participantId: number]: PerformanceRating;
+} {
+  const { participants, gameDuration } = match.info;
+  const minutes = Math.max(gameDuration / 60, 1);
+
+  const teamTotal = (teamId: number, field: (p: ParticipantDto) => number) =>
+    participants
+      .filter((p) => p.teamId === teamId)
+      .reduce((total, p) => total + field(p), 0);
+
+  // Raw stats per participant, in participant order
+  const ratio = (value: number, total: number) =>
+    total > 0 ? value / total : 0;
+  const raw = participants.map((p) => ({
+    damageShare: ratio(
+      p.totalDamageDealtToChampions,
+      teamTotal(p.teamId, (t) => t.totalDamageDealtToChampions)
+    ),
+    killParticipation: ratio(
+      p.kills + p.assists,
+      teamTotal(p.teamId, (t) => t.kills)
+    ),
+    goldEfficiency: ratio(p.totalDamageDealtToChampions, p.goldEarned),
+    visionPerMinute: p.visionScore / minutes,
+    objectiveDamage: p.damageDealtToObjectives,
+    deaths: p.deaths,
+  }));
+
+  // Scale each stat to 0-1 against the best value in the match
+  const max = (field: keyof typeof WEIGHTS) =>
+    Math.max(...raw.map((stats) => stats[field]));
+  const maxima = {
+    damageShare: max("damageShare"),
+    killParticipation: max("killParticipation"),
+    goldEfficiency: max("goldEfficiency"),
+    visionPerMinute: max("visionPerMinute"),
+    objectiveDamage: max("objectiveDamage"),
+    deaths: max("deaths"),
+  };
+
+  const scores = raw.map((stats) => {
+    let score = 0;
+    (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]).forEach((field) => {
+      const scaled =
+        field === "deaths"
+          ? 1 - ratio(stats.deaths, maxima.deaths)
+          : ratio(stats[field], maxima[field]);
+      score += WEIGHTS[field] * scaled;
+    });
+    return Math.round(score * 100) / 10;
+  });
+
+  // Rank everyone, best first - ties keep participant order
+  const order = participants
+    .map((p, idx) => ({ p, score: scores[idx] }))
+    .sort((a, b) => b.score - a.score);
+
+  const ratings: { [participantId: number]: PerformanceRating } = {};
+  let mvpGiven = false;
+  let aceGiven = false;
+  order.forEach(({ p, score }, idx) => {
+    let badge: PerformanceRating["badge"] = null;
+    if (p.win && !mvpGiven) {
+      badge = "MVP";
+      mvpGiven = true;
+    } else if (!p.win && !aceGiven) {
+      badge = "ACE";
+      aceGiven = true;
+    }
+    ratings[p.participantId] = {
+      score,
+      rank: idx + 1,
+      players: participants.length,
+      badge,
+    };
+  });
+
+  return ratings;
+}
@@ -0,0 +1,34 @@
+// Helpers for the shareable player profile URLs (safe to import from client and server)
+// Profiles live at /player/{platform}/{gameName}-{tagLine}
+
+// Build the profile path for a player
+export function getPlayerPath(
+  platform: string,
+  gameName: string,
+  tagLine: string
+): string {
+  return `/player/${platform.toLowerCase()}/${encodeURIComponent(
+    `${gameName}-${tagLine}`
+  )}`;
+}
+
+// Split a "{gameName}-{tagLine}" route segment into its parts
+// Taglines never contain "-", so the last one separates the two
+// Returns null for malformed segments, including broken percent-encoding
+export function parseRiotIdSegment(
+  segment: string
+): { gameName: string; tagLine: string } | null {
+  let riotId: string;
+  try {
+    riotId = decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+  const separator = riotId.lastIndexOf("-");
+  if (separator <= 0 || separator === riotId.length - 1) return null;
+
+  return {
+    gameName: riotId.slice(0, separator),
+    tagLine: riotId.slice(separator + 1),
+  };
+}
@@ -0,0 +1,26 @@
+// Queue name helpers (safe to import from client and server)
+
+// Queue ID mapping for common game modes
+const QUEUE_NAMES: { [queueId: number]: string } = {
+  400: "Normal Draft",
+  420: "Ranked Solo/Duo",
+  430: "Normal Blind",
+  440: "Ranked Flex",
+  450: "ARAM",
+  490: "Quickplay",
+  700: "Clash",
+  900: "URF",
+  1020: "One for All",
+  1300: "Nexus Blitz",
+  1400: "Ultimate Spellbook",
+  1700: "Arena",
+  1900: "URF",
+  2000: "Tutorial 1",
+  2010: "Tutorial 2",
+  2020: "Tutorial 3",
+};
+
+// Get a human-readable game mode name, falling back to the raw gameMode
+export function getGameModeName(queueId: number, gameMode: string): string {
+  return QUEUE_NAMES[queueId] || gameMode;
+}
@@ -0,0 +1,46 @@
+// Rank helpers (safe to import from client and server)
+
+// Tiers with divisions, lowest first - each is 400 LP wide (4 x 100)
+const DIVISION_TIERS = [
+  "IRON",
+  "BRONZE",
+  "SILVER",
+  "GOLD",
+  "PLATINUM",
+  "EMERALD",
+  "DIAMOND",
+];
+
+// Apex tiers share one LP scale starting where Diamond I ends
+const APEX_TIERS = ["MASTER", "GRANDMASTER", "CHALLENGER"];
+const APEX_START_LP = DIVISION_TIERS.length * 400;
+
+const DIVISIONS = ["IV", "III", "II", "I"];
+
+// Lower bound of every division tier plus Master on the ladder LP scale
+export const TIER_BOUNDARIES: { tier: string; ladderLp: number }[] = [
+  ...DIVISION_TIERS.map((tier, idx) => ({ tier, ladderLp: idx * 400 })),
+  { tier: "MASTER", ladderLp: APEX_START_LP },
+];
+
+// Convert a rank to one continuous number, e.g. GOLD II 50 LP -> 1450
+// Promotions and demotions then show up as ordinary LP differences
+export function getLadderLp(
+  tier: string,
+  rank: string,
+  leaguePoints: number
+): number {
+  if (APEX_TIERS.includes(tier)) {
+    return APEX_START_LP + leaguePoints;
+  }
+
+  const tierIdx = Math.max(DIVISION_TIERS.indexOf(tier), 0);
+  const divisionIdx = Math.max(DIVISIONS.indexOf(rank), 0);
+  return tierIdx * 400 + divisionIdx * 100 + leaguePoints;
+}
+
+// Queue ID of the matches that count towards each ranked queue type
+export const RANKED_QUEUE_IDS: { [queueType: string]: number } = {
+  RANKED_SOLO_5x5: 420,
+  RANKED_FLEX_SR: 440,
+};
@@ -0,0 +1,306 @@
+// Header-aware rate limiter for the Riot API (server-side only)
+//
+// Riot enforces two kinds of limits per routing value (e.g. "na1", "europe"):
+// an application limit shared by every endpoint, and a method limit per
+// endpoint. Both are advertised on every response as "count:seconds" pairs,
+// e.g. X-App-Rate-Limit: "20:1,100:120". Requests are queued per routing value
+// and method, so one exhausted method limit doesn't hold up other endpoints,
+// and are only sent once every window they count against has room left.
+
+// Development key limits - used until the first response tells us the real ones
+const DEFAULT_APP_LIMITS = "20:1,100:120";
+
+// How many times a request is retried after a 429 before giving up
+const MAX_RETRIES = 3;
+
+// Fallback wait when a 429 arrives without a Retry-After header
+const DEFAULT_RETRY_AFTER_SECONDS = 1;
+
+// Interface for a single fixed rate limit window
+interface RateLimitWindow {
+  limit: number; // Requests allowed per window
+  windowMs: number; // Window length in milliseconds
+  count: number; // Requests made in the current window
+  resetAt: number; // Timestamp when the current window ends
+}
+
+// Interface for the budget of one window, as exposed to the UI
+export interface RateLimitWindowStatus {
+  limit: number;
+  used: number;
+  windowSeconds: number;
+  resetInMs: number;
+}
+
+// Interface for the current budget of one routing value
+export interface RateLimitStatus {
+  routingValue: string;
+  queued: number; // Requests waiting for a free slot
+  estimatedWaitMs: number; // How long a new request would wait
+  app: RateLimitWindowStatus[];
+  methods: { [method: string]: RateLimitWindowStatus[] };
+}
+
+// Parse a "count:seconds,count:seconds" header into [count, seconds] pairs
+const parseLimitHeader = (header: string | null): [number, number][] => {
+  if (!header) return [];
+  return header
+    .split(",")
+    .map((part) => part.split(":").map(Number) as [number, number])
+    .filter(([count, seconds]) => count > 0 && seconds > 0);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A set of windows that all have to allow a request (one app or method limit)
+class RateLimitBucket {
+  private windows: RateLimitWindow[] = [];
+  private blockedUntil = 0;
+
+  constructor(limitHeader?: string) {
+    if (limitHeader) this.setLimits(parseLimitHeader(limitHeader));
+  }
+
+  // Milliseconds until this bucket allows another request (0 if it does now)
+  waitTime(now: number, queued = 0): number {
+    let wait = Math.max(0, this.blockedUntil - now);
+
+    for (const window of this.windows) {
+      if (now >= window.resetAt) {
+        // The window has ended - only the queue ahead of us counts
+        if (queued >= window.limit) {
+          wait = Math.max(
+            wait,
+            Math.floor(queued / window.limit) * window.windowMs
+          );
+        }
+        continue;
+      }
+
+      const pending = window.count + queued;
+      if (pending >= window.limit) {
+        // Full windows still to go after the current one ends
+        const extraWindows = Math.floor(
+          (pending - window.limit) / window.limit
+        );
+        wait = Math.max(
+          wait,
+          window.resetAt - now + extraWindows * window.windowMs
+        );
+      }
+    }
+
+    return wait;
+  }
+
+  // Count a request against every window
+  consume(now: number) {
+    for (const window of this.windows) {
+      if (now >= window.resetAt) {
+        window.count = 0;
+        window.resetAt = now + window.windowMs;
+      }
+      window.count++;
+    }
+  }
+
+  // Stop all requests until the given timestamp (after a 429)
+  block(until: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+  }
+
+  // Sync limits and counts with the headers of a response
+  update(limitHeader: string | null, countHeader: string | null) {
+    const limits = parseLimitHeader(limitHeader);
+    if (limits.length > 0) this.setLimits(limits);
+
+    const now = Date.now();
+    for (const [count, seconds] of parseLimitHeader(countHeader)) {
+      const window = this.windows.find((w) => w.windowMs === seconds * 1000);
+      if (!window) continue;
+
+      if (now >= window.resetAt) {
+        window.count = 0;
+        window.resetAt = now + window.windowMs;
+      }
+      // Riot may have seen requests we did not (e.g. another server using the key)
+      window.count = Math.max(window.count, count);
+    }
+  }
+
+  status(now: number): RateLimitWindowStatus[] {
+    return this.windows.map((window) => {
+      const active = now < window.resetAt;
+      return {
+        limit: window.limit,
+        used: active ? window.count : 0,
+        windowSeconds: window.windowMs / 1000,
+        resetInMs: active ? window.resetAt - now : 0,
+      };
+    });
+  }
+
+  // Replace the configured windows, keeping the counts of unchanged ones
+  private setLimits(limits: [number, number][]) {
+    this.windows = limits.map(([limit, seconds]) => {
+      const windowMs = seconds * 1000;
+      const existing = this.windows.find((w) => w.windowMs === windowMs);
+      return {
+        limit,
+        windowMs,
+        count: existing?.count ?? 0,
+        resetAt: existing?.resetAt ?? 0,
+      };
+    });
+  }
+}
+
+// State kept for every method called on a routing value
+interface MethodState {
+  bucket: RateLimitBucket;
+  queue: Promise<void>; // Tail of the FIFO queue of waiting requests
+  queued: number;
+}
+
+// State kept for every routing value we have talked to
+interface RoutingState {
+  app: RateLimitBucket;
+  methods: Map<string, MethodState>;
+}
+
+const routingStates = new Map<string, RoutingState>();
+
+const getRoutingState = (routingValue: string): RoutingState => {
+  let state = routingStates.get(routingValue);
+  if (!state) {
+    state = {
+      app: new RateLimitBucket(DEFAULT_APP_LIMITS),
+      methods: new Map(),
+    };
+    routingStates.set(routingValue, state);
+  }
+  return state;
+};
+
+const getMethodState = (state: RoutingState, method: string) => {
+  let methodState = state.methods.get(method);
+  if (!methodState) {
+    // Method limits are unknown until the first response for this method
+    methodState = {
+      bucket: new RateLimitBucket(),
+      queue: Promise.resolve(),
+      queued: 0,
+    };
+    state.methods.set(method, methodState);
+  }
+  return methodState;
+};
+
+// Wait in line behind earlier requests for the same method until both the
+// app and the method bucket have room
+const acquire = (routingValue: string, method: string): Promise<void> => {
+  const state = getRoutingState(routingValue);
+  const methodState = getMethodState(state, method);
+
+  methodState.queued++;
+  const turn = methodState.queue.then(async () => {
+    for (;;) {
+      const now = Date.now();
+      const wait = Math.max(
+        state.app.waitTime(now),
+        methodState.bucket.waitTime(now)
+      );
+      if (wait <= 0) {
+        state.app.consume(now);
+        methodState.bucket.consume(now);
+        return;
+      }
+      await sleep(wait);
+    }
+  });
+
+  methodState.queue = turn.finally(() => {
+    methodState.queued--;
+  });
+  return turn;
+};
+
+// Fetch a Riot API URL, waiting for rate limit budget first and honouring
+// Retry-After if Riot still answers with a 429
+export async function rateLimitedFetch(
+  url: string,
+  options: RequestInit,
+  routingValue: string,
+  method: string
+): Promise<Response> {
+  const state = getRoutingState(routingValue);
+  const methodBucket = getMethodState(state, method).bucket;
+
+  let response: Response | null = null;
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    await acquire(routingValue, method);
+    response = await fetch(url, options);
+
+    state.app.update(
+      response.headers.get("X-App-Rate-Limit"),
+      response.headers.get("X-App-Rate-Limit-Count")
+    );
+    methodBucket.update(
+      response.headers.get("X-Method-Rate-Limit"),
+      response.headers.get("X-Method-Rate-Limit-Count")
+    );
+
+    if (response.status !== 429) return response;
+
+    // Block whichever limit was exceeded for as long as Riot asks us to
+    const retryAfter =
+      Number(response.headers.get("Retry-After")) ||
+      DEFAULT_RETRY_AFTER_SECONDS;
+    const blockedUntil = Date.now() + retryAfter * 1000;
+    if (response.headers.get("X-Rate-Limit-Type") === "method") {
+      methodBucket.block(blockedUntil);
+    } else {
+      state.app.block(blockedUntil);
+    }
+  }
+
+  // If all retries failed, return the last 429 response
+  return response!;
+}
+
+// Get the current budget for the given routing values (all known ones if omitted)
+export function getRateLimitStatus(
+  routingValues?: string[]
+): RateLimitStatus[] {
+  const now = Date.now();
+  const values = routingValues ?? Array.from(routingStates.keys());
+
+  return values.map((routingValue) => {
+    const state = getRoutingState(routingValue);
+
+    let queued = 0;
+    state.methods.forEach((methodState) => {
+      queued += methodState.queued;
+    });
+
+    // A new request shares the app limit with everything already queued;
+    // method limits are per endpoint, so the slowest queue is a fair estimate
+    let estimatedWaitMs = state.app.waitTime(now, queued);
+    const methods: { [method: string]: RateLimitWindowStatus[] } = {};
+    state.methods.forEach((methodState, method) => {
+      methods[method] = methodState.bucket.status(now);
+      estimatedWaitMs = Math.max(
+        estimatedWaitMs,
+        methodState.bucket.waitTime(now, methodState.queued)
+      );
+    });
+
+    return {
+      routingValue,
+      queued,
+      estimatedWaitMs,
+      app: state.app.status(now),
+      methods,
+    };
+  });
+}
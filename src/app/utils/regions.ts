@@ -0,0 +1,46 @@
+// Platform and regional routing utilities (safe to import from client and server)
+
+// Regional clusters used by match-v5 (and account-v1, see getAccountRegion)
+export type Region = "americas" | "europe" | "asia" | "sea";
+
+// Interface for a selectable platform (the server a player's account lives on)
+export interface Platform {
+  id: string; // Platform routing value, e.g. "euw1"
+  label: string; // Human-readable name for the search form
+  region: Region; // Regional cluster that hosts the platform's matches
+}
+
+// All League of Legends platforms, in the order shown in the search form
+export const PLATFORMS: Platform[] = [
+  { id: "na1", label: "North America", region: "americas" },
+  { id: "euw1", label: "Europe West", region: "europe" },
+  { id: "eun1", label: "Europe Nordic & East", region: "europe" },
+  { id: "kr", label: "Korea", region: "asia" },
+  { id: "jp1", label: "Japan", region: "asia" },
+  { id: "br1", label: "Brazil", region: "americas" },
+  { id: "la1", label: "Latin America North", region: "americas" },
+  { id: "la2", label: "Latin America South", region: "americas" },
+  { id: "oc1", label: "Oceania", region: "sea" },
+  { id: "tr1", label: "Turkey", region: "europe" },
+  { id: "ru", label: "Russia", region: "europe" },
+  { id: "me1", label: "Middle East", region: "europe" },
+  { id: "sg2", label: "Singapore, Malaysia & Indonesia", region: "sea" },
+  { id: "tw2", label: "Taiwan, Hong Kong & Macao", region: "sea" },
+  { id: "vn2", label: "Vietnam", region: "sea" },
+];
+
+// Platform used when a request does not specify one
+export const DEFAULT_PLATFORM = "na1";
+
+// Look up a platform by its routing value (case-insensitive)
+export function getPlatform(platformId: string): Platform | undefined {
+  const id = platformId.toLowerCase();
+  return PLATFORMS.find((platform) => platform.id === id);
+}
+
+// Get the regional cluster for account-v1 calls
+// Account data is global but only served from americas, europe and asia,
+// so SEA platforms are routed to the closest of those
+export function getAccountRegion(platform: Platform): Region {
+  return platform.region === "sea" ? "asia" : platform.region;
+}
@@ -0,0 +1,503 @@
+// Riot API client - shared by every API route (server-side only)
+import { rateLimitedFetch } from "./rateLimiter";
+import { cached } from "./riotCache";
+import { getAccountRegion, Platform } from "./regions";
+
+// Get the Riot API key from environment variables - this is the key you set in .env.local
+const RIOT_API_KEY = process.env.RIOT_API_KEY;
+
+// How long mutable data is served from the cache before it is refetched
+const ACCOUNT_TTL_MS = 60 * 60 * 1000; // Riot IDs rarely change
+const SUMMONER_TTL_MS = 60 * 60 * 1000;
+const LEAGUE_TTL_MS = 5 * 60 * 1000; // LP changes after every ranked game
+const MASTERY_TTL_MS = 15 * 60 * 1000;
+const SPECTATOR_TTL_MS = 30 * 1000; // Short - just absorbs repeated lookups
+
+// Base URL for regional endpoints (account-v1, match-v5)
+const regionalBase = (region: string) => `https://${region}.api.riotgames.com`;
+
+// Base URL for platform endpoints (summoner-v4, league-v4, champion-mastery-v4,
+// spectator-v5)
+const platformBase = (platform: Platform) =>
+  `https://${platform.id}.api.riotgames.com`;
+
+// DTOs - shapes of the Riot API responses we consume
+
+// account-v1
+export interface AccountDto {
+  puuid: string;
+  gameName?: string;
+  tagLine?: string;
+}
+
+// summoner-v4
+export interface SummonerDto {
+  id: string;
+  accountId: string;
+  puuid: string;
+  profileIconId: number;
+  revisionDate: number;
+  summonerLevel: number;
+}
+
+// league-v4
+export interface LeagueEntryDto {
+  leagueId: string;
+  summonerId: string;
+  puuid?: string;
+  queueType: string;
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+  hotStreak: boolean;
+  veteran: boolean;
+  freshBlood: boolean;
+  inactive: boolean;
+}
+
+// champion-mastery-v4
+export interface ChampionMasteryDto {
+  puuid: string;
+  championId: number;
+  championLevel: number;
+  championPoints: number;
+  championPointsSinceLastLevel: number;
+  championPointsUntilNextLevel: number;
+  lastPlayTime: number;
+  chestGranted?: boolean;
+  tokensEarned: number;
+}
+
+// match-v5 - match
+export interface PerkStyleSelectionDto {
+  perk: number;
+  var1: number;
+  var2: number;
+  var3: number;
+}
+
+export interface PerkStyleDto {
+  description: string;
+  selections: PerkStyleSelectionDto[];
+  style: number;
+}
+
+export interface PerksDto {
+  statPerks: {
+    defense: number;
+    flex: number;
+    offense: number;
+  };
+  styles: PerkStyleDto[];
+}
+
+export interface ParticipantDto {
+  participantId: number;
+  puuid: string;
+  summonerName: string;
+  riotIdGameName?: string;
+  riotIdTagline?: string;
+  championId: number;
+  championName: string;
+  championTransform: number;
+  champLevel: number;
+  teamId: number;
+  teamPosition: string;
+  individualPosition: string;
+  lane: string;
+  role: string;
+  win: boolean;
+  gameEndedInEarlySurrender: boolean;
+  kills: number;
+  deaths: number;
+  assists: number;
+  firstBloodKill: boolean;
+  firstBloodAssist: boolean;
+  firstTowerKill: boolean;
+  firstTowerAssist: boolean;
+  totalDamageDealtToChampions: number;
+  physicalDamageDealtToChampions: number;
+  magicDamageDealtToChampions: number;
+  trueDamageDealtToChampions: number;
+  totalDamageTaken: number;
+  damageDealtToObjectives: number;
+  damageDealtToBuildings: number;
+  damageDealtToTurrets: number;
+  goldEarned: number;
+  goldSpent: number;
+  visionScore: number;
+  wardsPlaced: number;
+  wardsKilled: number;
+  visionWardsBoughtInGame: number;
+  totalMinionsKilled: number;
+  neutralMinionsKilled: number;
+  item0: number;
+  item1: number;
+  item2: number;
+  item3: number;
+  item4: number;
+  item5: number;
+  item6: number;
+  summoner1Id: number;
+  summoner2Id: number;
+  perks: PerksDto;
+}
+
+export interface ObjectiveDto {
+  first: boolean;
+  kills: number;
+}
+
+export interface TeamDto {
+  teamId: number;
+  win: boolean;
+  bans: { championId: number; pickTurn: number }[];
+  objectives: {
+    baron: ObjectiveDto;
+    champion: ObjectiveDto;
+    dragon: ObjectiveDto;
+    inhibitor: ObjectiveDto;
+    riftHerald: ObjectiveDto;
+    tower: ObjectiveDto;
+  };
+}
+
+export interface MatchDto {
+  metadata: {
+    dataVersion: string;
+    matchId: string;
+    participants: string[];
+  };
+  info: {
+    gameCreation: number;
+    gameDuration: number;
+    gameEndTimestamp?: number;
+    gameId: number;
+    gameMode: string;
+    gameType: string;
+    gameVersion: string;
+    mapId: number;
+    platformId: string;
+    queueId: number;
+    participants: ParticipantDto[];
+    teams: TeamDto[];
+  };
+}
+
+// match-v5 - timeline
+export interface PositionDto {
+  x: number;
+  y: number;
+}
+
+export interface TimelineEventDto {
+  type: string;
+  timestamp: number;
+  realTimestamp?: number;
+  participantId?: number;
+  killerId?: number;
+  victimId?: number;
+  assistingParticipantIds?: number[];
+  creatorId?: number;
+  itemId?: number;
+  beforeId?: number;
+  afterId?: number;
+  skillSlot?: number;
+  levelUpType?: string;
+  wardType?: string;
+  teamId?: number;
+  buildingType?: string;
+  towerType?: string;
+  laneType?: string;
+  monsterType?: string;
+  killType?: string;
+  position?: PositionDto;
+}
+
+export interface ParticipantFrameDto {
+  participantId: number;
+  currentGold: number;
+  totalGold: number;
+  level: number;
+  xp: number;
+  minionsKilled: number;
+  jungleMinionsKilled: number;
+  position: PositionDto;
+}
+
+export interface TimelineFrameDto {
+  timestamp: number;
+  events: TimelineEventDto[];
+  participantFrames: { [participantId: string]: ParticipantFrameDto };
+}
+
+export interface TimelineDto {
+  metadata: {
+    dataVersion: string;
+    matchId: string;
+    participants: string[];
+  };
+  info: {
+    frameInterval: number;
+    frames: TimelineFrameDto[];
+    participants?: { participantId: number; puuid: string }[];
+  };
+}
+
+// spectator-v5
+export interface CurrentGameParticipantDto {
+  puuid: string;
+  summonerId?: string;
+  riotId?: string; // "gameName#tagLine"
+  championId: number;
+  teamId: number;
+  spell1Id: number;
+  spell2Id: number;
+  profileIconId: number;
+  bot: boolean;
+  perks: {
+    perkIds: number[]; // Six runes, then the three stat shards
+    perkStyle: number;
+    perkSubStyle: number;
+  };
+}
+
+export interface CurrentGameInfoDto {
+  gameId: number;
+  gameType: string;
+  gameMode: string;
+  mapId: number;
+  gameQueueConfigId?: number;
+  gameStartTime: number; // Epoch milliseconds, 0 while loading in
+  gameLength: number; // Seconds
+  platformId: string;
+  bannedChampions: { championId: number; teamId: number; pickTurn: number }[];
+  participants: CurrentGameParticipantDto[];
+}
+
+// Request helpers
+
+// Error thrown when the Riot API answers with a non-2xx status
+export class RiotApiError extends Error {
+  status: number;
+  body: string;
+
+  constructor(status: number, body: string, url: string) {
+    super(`Riot API request failed with status ${status}: ${url}`);
+    this.name = "RiotApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Perform an authenticated, rate limited GET request and parse the JSON body
+// routingValue is the host prefix (e.g. "na1", "europe") and method names the
+// endpoint, which together select the rate limit buckets the request uses
+async function riotFetch<T>(
+  url: string,
+  routingValue: string,
+  method: string
+): Promise<T> {
+  const response = await rateLimitedFetch(
+    url,
+    {
+      headers: {
+        "X-Riot-Token": RIOT_API_KEY!, // Include the API key in headers
+      },
+    },
+    routingValue,
+    method
+  );
+
+  if (!response.ok) {
+    throw new RiotApiError(response.status, await response.text(), url);
+  }
+
+  return (await response.json()) as T;
+}
+
+// Endpoints
+
+// Convert a Riot ID (gameName + tagLine) to an account, which carries the PUUID
+export async function getAccountByRiotId(
+  platform: Platform,
+  gameName: string,
+  tagLine: string
+): Promise<AccountDto> {
+  const region = getAccountRegion(platform);
+  const base = regionalBase(region);
+  // Riot IDs are case-insensitive
+  const key = `${region}/${gameName}#${tagLine}`.toLowerCase();
+  return cached("account", key, ACCOUNT_TTL_MS, () =>
+    riotFetch<AccountDto>(
+      `${base}/riot/account/v1/accounts/by-riot-id/${encodeURIComponent(
+        gameName
+      )}/${encodeURIComponent(tagLine)}`,
+      region,
+      "account-v1.by-riot-id"
+    )
+  );
+}
+
+// Get summoner data for a PUUID
+export async function getSummonerByPuuid(
+  platform: Platform,
+  puuid: string
+): Promise<SummonerDto> {
+  const base = platformBase(platform);
+  return cached("summoner", `${platform.id}/${puuid}`, SUMMONER_TTL_MS, () =>
+    riotFetch<SummonerDto>(
+      `${base}/lol/summoner/v4/summoners/by-puuid/${puuid}`,
+      platform.id,
+      "summoner-v4.by-puuid"
+    )
+  );
+}
+
+// Get the ranked entries (solo/duo, flex) for a summoner
+// Pass fresh to bypass the cache, e.g. when the entries are timestamped
+export async function getLeagueEntriesBySummonerId(
+  platform: Platform,
+  summonerId: string,
+  fresh = false
+): Promise<LeagueEntryDto[]> {
+  const base = platformBase(platform);
+  return cached(
+    "league",
+    `${platform.id}/${summonerId}`,
+    LEAGUE_TTL_MS,
+    () =>
+      riotFetch<LeagueEntryDto[]>(
+        `${base}/lol/league/v4/entries/by-summoner/${summonerId}`,
+        platform.id,
+        "league-v4.entries-by-summoner"
+      ),
+    fresh
+  );
+}
+
+// Get the player's highest champion masteries
+export async function getTopChampionMasteries(
+  platform: Platform,
+  puuid: string,
+  count = 10
+): Promise<ChampionMasteryDto[]> {
+  const base = platformBase(platform);
+  const key = `${platform.id}/${puuid}/top-${count}`;
+  return cached("mastery", key, MASTERY_TTL_MS, () =>
+    riotFetch<ChampionMasteryDto[]>(
+      `${base}/lol/champion-mastery/v4/champion-masteries/by-puuid/${puuid}/top?count=${count}`,
+      platform.id,
+      "champion-mastery-v4.top-by-puuid"
+    )
+  );
+}
+
+// Get the player's mastery on every champion they have played
+export async function getChampionMasteries(
+  platform: Platform,
+  puuid: string
+): Promise<ChampionMasteryDto[]> {
+  const base = platformBase(platform);
+  const key = `${platform.id}/${puuid}/all`;
+  return cached("mastery", key, MASTERY_TTL_MS, () =>
+    riotFetch<ChampionMasteryDto[]>(
+      `${base}/lol/champion-mastery/v4/champion-masteries/by-puuid/${puuid}`,
+      platform.id,
+      "champion-mastery-v4.by-puuid"
+    )
+  );
+}
+
+// Get the game a player is currently in
+// Throws a RiotApiError with status 404 when they are not in a game
+export async function getActiveGameByPuuid(
+  platform: Platform,
+  puuid: string
+): Promise<CurrentGameInfoDto> {
+  const base = platformBase(platform);
+  return cached("spectator", `${platform.id}/${puuid}`, SPECTATOR_TTL_MS, () =>
+    riotFetch<CurrentGameInfoDto>(
+      `${base}/lol/spectator/v5/active-games/by-summoner/${puuid}`,
+      platform.id,
+      "spectator-v5.active-games-by-summoner"
+    )
+  );
+}
+
+// Options accepted by the match-v5 ids endpoint
+export interface MatchIdsQuery {
+  queue?: number;
+  type?: string; // ranked, normal, tourney or tutorial
+  startTime?: number; // Epoch seconds
+  endTime?: number; // Epoch seconds
+  start?: number;
+  count?: number;
+}
+
+// Get a list of match IDs for the player, most recent first
+export async function getMatchIdsByPuuid(
+  platform: Platform,
+  puuid: string,
+  { queue, type, startTime, endTime, start = 0, count = 20 }: MatchIdsQuery = {}
+): Promise<string[]> {
+  const params = new URLSearchParams();
+  if (queue !== undefined) params.set("queue", String(queue));
+  if (type !== undefined) params.set("type", type);
+  if (startTime !== undefined) params.set("startTime", String(startTime));
+  if (endTime !== undefined) params.set("endTime", String(endTime));
+  params.set("start", String(start));
+  params.set("count", String(count));
+
+  const base = regionalBase(platform.region);
+  return riotFetch<string[]>(
+    `${base}/lol/match/v5/matches/by-puuid/${puuid}/ids?${params}`,
+    platform.region,
+    "match-v5.ids-by-puuid"
+  );
+}
+
+// Get full match data for a match ID
+// Finished matches never change, so they are cached forever
+export async function getMatch(
+  platform: Platform,
+  matchId: string
+): Promise<MatchDto> {
+  const base = regionalBase(platform.region);
+  return cached("match", matchId, null, () =>
+    riotFetch<MatchDto>(
+      `${base}/lol/match/v5/matches/${matchId}`,
+      platform.region,
+      "match-v5.match"
+    )
+  );
+}
+
+// Get the minute-by-minute timeline for a match ID (cached forever, like matches)
+export async function getMatchTimeline(
+  platform: Platform,
+  matchId: string
+): Promise<TimelineDto> {
+  const base = regionalBase(platform.region);
+  return cached("timeline", matchId, null, () =>
+    riotFetch<TimelineDto>(
+      `${base}/lol/match/v5/matches/${matchId}/timeline`,
+      platform.region,
+      "match-v5.timeline"
+    )
+  );
+}
+
+// Fetch several matches at once, skipping any that fail to load
+// Requests are queued by the rate limiter, so large batches are safe
+export async function getMatches(
+  platform: Platform,
+  matchIds: string[]
+): Promise<MatchDto[]> {
+  const matches = await Promise.all(
+    matchIds.map((matchId) => getMatch(platform, matchId).catch(() => null))
+  );
+  return matches.filter((match): match is MatchDto => match !== null);
+}
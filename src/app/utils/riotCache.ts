@@ -0,0 +1,138 @@
+// File-backed cache for Riot API payloads (server-side only)
+//
+// Finished matches and their timelines never change, so they are stored
+// forever. Mutable data (league entries, mastery, ...) is stored with a TTL.
+// Entries live in one JSON file per key, so they survive server restarts.
+import { promises as fs } from "fs";
+import path from "path";
+
+// Directory holding the cache - override with RIOT_CACHE_DIR in .env.local
+const CACHE_DIR =
+  process.env.RIOT_CACHE_DIR || path.join(process.cwd(), ".cache", "riot");
+
+// Interface for an entry as stored on disk
+interface CacheEntry<T> {
+  storedAt: number;
+  expiresAt: number | null; // null for immutable data
+  value: T;
+}
+
+// Interface for the hit/miss counters of one namespace
+export interface CacheNamespaceStats {
+  hits: number;
+  misses: number;
+  hitRate: string; // Percentage with one decimal, e.g. "87.5"
+}
+
+// Counters since the server started, keyed by namespace
+const stats: { [namespace: string]: { hits: number; misses: number } } = {};
+
+// Loads currently running, so concurrent requests for a key share one fetch
+const inFlight = new Map<string, Promise<unknown>>();
+
+const entryPath = (namespace: string, key: string) =>
+  path.join(CACHE_DIR, namespace, `${encodeURIComponent(key)}.json`);
+
+const record = (namespace: string, hit: boolean) => {
+  if (!stats[namespace]) stats[namespace] = { hits: 0, misses: 0 };
+  if (hit) stats[namespace].hits++;
+  else stats[namespace].misses++;
+};
+
+// Read an entry, returning null if it is missing, corrupt or expired
+async function readEntry<T>(
+  namespace: string,
+  key: string
+): Promise<CacheEntry<T> | null> {
+  try {
+    const raw = await fs.readFile(entryPath(namespace, key), "utf8");
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+async function writeEntry<T>(namespace: string, key: string, value: T) {
+  const file = entryPath(namespace, key);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write to a temp file first so a crash never leaves half an entry behind
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value));
+    await fs.rename(tmp, file);
+  } catch (error) {
+    // Caching is an optimisation - never fail the request because of it
+    console.error("Error writing cache entry:", namespace, key, error);
+  }
+}
+
+// Return the cached value for namespace/key, or load and store it
+// ttlMs is how long the value stays fresh; pass null for immutable data
+// refresh skips the stored value and loads a new one (which is stored)
+export async function cached<T>(
+  namespace: string,
+  key: string,
+  ttlMs: number | null,
+  load: () => Promise<T>,
+  refresh = false
+): Promise<T> {
+  const entry = refresh ? null : await readEntry<T>(namespace, key);
+  if (entry) {
+    record(namespace, true);
+    return entry.value;
+  }
+
+  const inFlightKey = `${namespace}/${key}`;
+  const pending = inFlight.get(inFlightKey);
+  if (pending) {
+    record(namespace, true);
+    return pending as Promise<T>;
+  }
+
+  record(namespace, false);
+  const loading = (async () => {
+    const value = await load();
+    const now = Date.now();
+    await writeEntry<CacheEntry<T>>(namespace, key, {
+      storedAt: now,
+      expiresAt: ttlMs === null ? null : now + ttlMs,
+      value,
+    });
+    return value;
+  })();
+
+  inFlight.set(inFlightKey, loading);
+  try {
+    return await loading;
+  } finally {
+    inFlight.delete(inFlightKey);
+  }
+}
+
+// Get hit/miss counters per namespace plus a total
+export function getCacheStats(): {
+  namespaces: { [namespace: string]: CacheNamespaceStats };
+  total: CacheNamespaceStats;
+} {
+  const withRate = (hits: number, misses: number): CacheNamespaceStats => ({
+    hits,
+    misses,
+    hitRate:
+      hits + misses > 0 ? ((hits / (hits + misses)) * 100).toFixed(1) : "0.0",
+  });
+
+  const namespaces: { [namespace: string]: CacheNamespaceStats } = {};
+  let totalHits = 0;
+  let totalMisses = 0;
+  Object.entries(stats).forEach(([namespace, { hits, misses }]) => {
+    namespaces[namespace] = withRate(hits, misses);
+    totalHits += hits;
+    totalMisses += misses;
+  });
+
+  return { namespaces, total: withRate(totalHits, totalMisses) };
+}
@@ -0,0 +1,128 @@
+// Role helpers for match-v5 participants (safe to import from client and server)
+import type { MatchDto, ParticipantDto } from "./riotApi";
+import { isRemake, kdaRatio } from "./matchStats";
+
+// Roles in display order, as returned by getRole
+export const ROLES = ["top", "jungle", "mid", "adc", "support"];
+
+// Display names for the roles above
+export const ROLE_LABELS: { [role: string]: string } = {
+  top: "Top",
+  jungle: "Jungle",
+  mid: "Mid",
+  adc: "ADC",
+  support: "Support",
+};
+
+// Determine a participant's role from teamPosition (Riot's best guess)
+// teamPosition is more reliable than lane/role fields which are often incorrect
+export function getRole(participant: ParticipantDto): string {
+  const teamPosition = participant.teamPosition;
+
+  // teamPosition values are: TOP, JUNGLE, MIDDLE, BOTTOM, UTILITY
+  if (teamPosition === "TOP") return "top";
+  if (teamPosition === "JUNGLE") return "jungle";
+  if (teamPosition === "MIDDLE") return "mid";
+  if (teamPosition === "BOTTOM") return "adc";
+  if (teamPosition === "UTILITY") return "support";
+
+  // Fallback to lane/role if teamPosition is missing (rare but possible)
+  const lane = participant.lane;
+  const role = participant.role;
+
+  if (lane === "TOP") return "top";
+  if (lane === "JUNGLE") return "jungle";
+  if (lane === "MIDDLE") return "mid";
+  if (lane === "BOTTOM" && role === "CARRY") return "adc";
+  if (lane === "BOTTOM" && role === "SUPPORT") return "support";
+  if (lane === "UTILITY") return "support";
+
+  // Final fallback for edge cases
+  return "unknown";
+}
+
+// Interface for a player's aggregate stats in one role
+export interface RoleStats {
+  role: string;
+  games: number;
+  wins: number;
+  winrate: string;
+  kda: string;
+  csPerMinute: string;
+  damageShare: string; // Percentage of the team's damage to champions
+  visionPerMinute: string;
+}
+
+// Aggregate a player's games by the role they played, in ROLES order
+// Roles without games and matches without a known role are left out
+export function getRoleStats(matches: MatchDto[], puuid: string): RoleStats[] {
+  const totals: {
+    [role: string]: {
+      games: number;
+      wins: number;
+      kills: number;
+      deaths: number;
+      assists: number;
+      cs: number;
+      visionScore: number;
+      minutes: number;
+      damageShare: number; // Sum of per-game shares, averaged below
+    };
+  } = {};
+
+  matches.forEach((match) => {
+    // Remakes are not counted
+    if (isRemake(match)) return;
+
+    const participant = match.info.participants.find((p) => p.puuid === puuid);
+    if (!participant) return;
+
+    const role = getRole(participant);
+    if (!ROLES.includes(role)) return;
+
+    const teamDamage = match.info.participants
+      .filter((p) => p.teamId === participant.teamId)
+      .reduce((total, p) => total + p.totalDamageDealtToChampions, 0);
+
+    if (!totals[role]) {
+      totals[role] = {
+        games: 0,
+        wins: 0,
+        kills: 0,
+        deaths: 0,
+        assists: 0,
+        cs: 0,
+        visionScore: 0,
+        minutes: 0,
+        damageShare: 0,
+      };
+    }
+
+    const entry = totals[role];
+    entry.games++;
+    if (participant.win) entry.wins++;
+    entry.kills += participant.kills;
+    entry.deaths += participant.deaths;
+    entry.assists += participant.assists;
+    entry.cs +=
+      participant.totalMinionsKilled + participant.neutralMinionsKilled;
+    entry.visionScore += participant.visionScore;
+    entry.minutes += match.info.gameDuration / 60;
+    entry.damageShare +=
+      teamDamage > 0 ? participant.totalDamageDealtToChampions / teamDamage : 0;
+  });
+
+  return ROLES.filter((role) => totals[role]).map((role) => {
+    const entry = totals[role];
+    return {
+      role,
+      games: entry.games,
+      wins: entry.wins,
+      winrate: ((entry.wins / entry.games) * 100).toFixed(1),
+      kda: kdaRatio(entry.kills, entry.deaths, entry.assists),
+      csPerMinute: (entry.cs / entry.minutes).toFixed(1),
+      damageShare: ((entry.damageShare / entry.games) * 100).toFixed(1),
+      visionPerMinute: (entry.visionScore / entry.minutes).toFixed(2),
+    };
+  });
+}
@@ -0,0 +1,189 @@
+// Rune mapping utility functions
+import { DDRAGON_BASE, getDataUrl } from "./dataDragon";
+// Import the match-v5 perks shape
+import type { PerksDto } from "./riotApi";
+
+// Interface for a single rune
+export interface RuneData {
+  id: number;
+  key: string;
+  name: string;
+  icon: string; // Path relative to the Data Dragon image root
+  shortDesc: string;
+}
+
+// Interface for a rune tree (Precision, Domination, ...)
+export interface RuneStyleData {
+  id: number;
+  key: string;
+  name: string;
+  icon: string;
+  slots: { runes: RuneData[] }[];
+}
+
+// Interface for the lookup tables built from runesReforged.json
+export interface RuneMapping {
+  styles: { [id: string]: RuneStyleData };
+  runes: { [id: string]: RuneData };
+}
+
+// Interface for one rune as shown in a rune page
+export interface RunePageEntry {
+  id: number;
+  name: string;
+  icon: string | null; // Full URL, null for stat shards and unknown runes
+  description: string;
+}
+
+// Interface for a player's full rune page
+export interface RunePage {
+  primaryStyle: RunePageEntry;
+  primaryRunes: RunePageEntry[]; // Keystone first
+  secondaryStyle: RunePageEntry;
+  secondaryRunes: RunePageEntry[];
+  statShards: RunePageEntry[]; // Offense, flex, defense
+}
+
+// Stat shards are not part of runesReforged.json, so they are named here
+const STAT_SHARD_NAMES: { [id: number]: string } = {
+  5001: "Health Scaling",
+  5002: "Armor",
+  5003: "Magic Resist",
+  5005: "Attack Speed",
+  5007: "Ability Haste",
+  5008: "Adaptive Force",
+  5010: "Move Speed",
+  5011: "Health",
+  5013: "Tenacity and Slow Resist",
+};
+
+// Cache for rune data per Data Dragon version to avoid repeated API calls
+const runeCache: { [version: string]: RuneMapping } = {};
+
+// Fetch rune data for a Data Dragon version
+export async function fetchRuneData(version: string): Promise<RuneMapping> {
+  // Return cached data if available
+  if (runeCache[version]) {
+    return runeCache[version];
+  }
+
+  try {
+    const response = await fetch(getDataUrl(version, "runesReforged.json"));
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch rune data");
+    }
+
+    const data: RuneStyleData[] = await response.json();
+
+    // Convert rune data to lookup tables keyed by ID
+    const runeMapping: RuneMapping = { styles: {}, runes: {} };
+
+    data.forEach((style) => {
+      runeMapping.styles[style.id] = style;
+      style.slots.forEach((slot) =>
+        slot.runes.forEach((rune) => {
+          runeMapping.runes[rune.id] = rune;
+        })
+      );
+    });
+
+    // Cache the data
+    runeCache[version] = runeMapping;
+
+    return runeMapping;
+  } catch (error) {
+    console.error("Error fetching rune data:", error);
+    return { styles: {}, runes: {} };
+  }
+}
+
+// Get the full URL of a rune or rune tree icon
+export function getRuneImageUrl(icon: string): string {
+  return `${DDRAGON_BASE}/cdn/img/${icon}`;
+}
+
+// Get the display name of a stat shard
+export function getStatShardName(id: number): string {
+  return STAT_SHARD_NAMES[id] || `Stat shard ${id}`;
+}
+
+// Resolve a match participant's perks into a named rune page with icons
+export function getRunePage(perks: PerksDto, mapping: RuneMapping): RunePage {
+  const toStyle = (id: number): RunePageEntry => {
+    const style = mapping.styles[id];
+    return {
+      id,
+      name: style ? style.name : `Rune tree ${id}`,
+      icon: style ? getRuneImageUrl(style.icon) : null,
+      description: "",
+    };
+  };
+
+  const toRune = (id: number): RunePageEntry => {
+    const rune = mapping.runes[id];
+    return {
+      id,
+      name: rune ? rune.name : `Rune ${id}`,
+      icon: rune ? getRuneImageUrl(rune.icon) : null,
+      // shortDesc uses the same markup as item descriptions
+      description: rune ? rune.shortDesc.replace(/<[^>]+>/g, "") : "",
+    };
+  };
+
+  const toShard = (id: number): RunePageEntry => ({
+    id,
+    name: getStatShardName(id),
+    icon: null,
+    description: "",
+  });
+
+  // The primary and secondary trees are labelled by their description
+  const primary = perks.styles.find((s) => s.description === "primaryStyle");
+  const secondary = perks.styles.find((s) => s.description === "subStyle");
+
+  return {
+    primaryStyle: toStyle(primary?.style ?? 0),
+    primaryRunes: (primary?.selections ?? []).map((s) => toRune(s.perk)),
+    secondaryStyle: toStyle(secondary?.style ?? 0),
+    secondaryRunes: (secondary?.selections ?? []).map((s) => toRune(s.perk)),
+    statShards: [
+      perks.statPerks.offense,
+      perks.statPerks.flex,
+      perks.statPerks.defense,
+    ].map(toShard),
+  };
+}
+
+// Same as getRunePage for the perks of a live game (spectator-v5), which
+// list the six runes and three stat shards in one perkIds array
+export function getRunePageFromPerkIds(
+  perks: { perkIds: number[]; perkStyle: number; perkSubStyle: number },
+  mapping: RuneMapping
+): RunePage {
+  const toSelections = (ids: number[]) =>
+    ids.map((perk) => ({ perk, var1: 0, var2: 0, var3: 0 }));
+
+  return getRunePage(
+    {
+      styles: [
+        {
+          description: "primaryStyle",
+          style: perks.perkStyle,
+          selections: toSelections(perks.perkIds.slice(0, 4)),
+        },
+        {
+          description: "subStyle",
+          style: perks.perkSubStyle,
+          selections: toSelections(perks.perkIds.slice(4, 6)),
+        },
+      ],
+      statPerks: {
+        offense: perks.perkIds[6],
+        flex: perks.perkIds[7],
+        defense: perks.perkIds[8],
+      },
+    },
+    mapping
+  );
+}
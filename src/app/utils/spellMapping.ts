@@ -0,0 +1,100 @@
+// Summoner spell mapping utility functions
+import { getDataUrl, getImageUrl } from "./dataDragon";
+
+// Interface for summoner spell data
+export interface SummonerSpellData {
+  id: number; // Numeric key, as used by summoner1Id/summoner2Id
+  name: string;
+  description: string;
+  cooldown: number;
+  image: {
+    full: string;
+  };
+}
+
+// Cache for spell data per Data Dragon version to avoid repeated API calls
+const spellCache: {
+  [version: string]: { [key: string]: SummonerSpellData };
+} = {};
+
+// Fetch summoner spell data for a Data Dragon version, keyed by numeric ID
+export async function fetchSummonerSpellData(version: string): Promise<{
+  [key: string]: SummonerSpellData;
+}> {
+  // Return cached data if available
+  if (spellCache[version]) {
+    return spellCache[version];
+  }
+
+  try {
+    const response = await fetch(getDataUrl(version, "summoner.json"));
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch summoner spell data");
+    }
+
+    const data: {
+      data: {
+        [name: string]: {
+          key: string;
+          name: string;
+          description: string;
+          cooldown: number[];
+          image: { full: string };
+        };
+      };
+    } = await response.json();
+
+    // Convert spell data to mapping format, keyed by numeric ID
+    const spellMapping: { [key: string]: SummonerSpellData } = {};
+
+    Object.values(data.data).forEach((spell) => {
+      spellMapping[spell.key] = {
+        id: Number(spell.key),
+        name: spell.name,
+        description: spell.description,
+        cooldown: spell.cooldown[0],
+        image: spell.image,
+      };
+    });
+
+    // Cache the data
+    spellCache[version] = spellMapping;
+
+    return spellMapping;
+  } catch (error) {
+    console.error("Error fetching summoner spell data:", error);
+    return {};
+  }
+}
+
+// Get summoner spell image URL
+export function getSummonerSpellImageUrl(
+  version: string,
+  spell: SummonerSpellData
+): string {
+  return getImageUrl(version, "spell", spell.image.full);
+}
+
+// Interface for a summoner spell as returned by the API routes
+export interface SummonerSpellInfo {
+  id: number;
+  name: string;
+  description: string;
+  icon: string | null; // Full URL, null if the spell is unknown for the patch
+}
+
+// Resolve a summoner spell ID into its name, description and icon
+export function getSummonerSpellInfo(
+  id: number,
+  spells: { [key: string]: SummonerSpellData },
+  version: string
+): SummonerSpellInfo {
+  const spell = spells[id.toString()];
+  return {
+    id,
+    name: spell ? spell.name : `Spell ${id}`,
+    description: spell ? spell.description : "",
+    icon: spell ? getSummonerSpellImageUrl(version, spell) : null,
+  };
+}
@@ -0,0 +1,109 @@
+// Frequent teammate (duo partner) aggregation across matches
+import type { MatchDto } from "./riotApi";
+import { isRemake, kdaRatio } from "./matchStats";
+
+// Interface for one player seen on the searched player's team
+export interface Teammate {
+  puuid: string;
+  gameName: string; // From the most recent game together
+  tagLine: string; // "" for old matches without Riot IDs
+  games: number;
+  wins: number;
+  winrate: string;
+  // The searched player's average KDA in games with this teammate
+  kda: string;
+  // The teammate's own average KDA in those games
+  teammateKda: string;
+  lastPlayed: number; // gameCreation of the most recent game together
+}
+
+// Count every player who appeared on the searched player's team and keep
+// those seen in at least minGames matches, most games together first
+export function getFrequentTeammates(
+  matches: MatchDto[],
+  puuid: string,
+  minGames = 2
+): Teammate[] {
+  const totals: {
+    [puuid: string]: {
+      gameName: string;
+      tagLine: string;
+      games: number;
+      wins: number;
+      kills: number;
+      deaths: number;
+      assists: number;
+      teammateKills: number;
+      teammateDeaths: number;
+      teammateAssists: number;
+      lastPlayed: number;
+    };
+  } = {};
+
+  // Newest first, so the first name seen for a teammate is their current one
+  const sorted = [...matches].sort(
+    (a, b) => b.info.gameCreation - a.info.gameCreation
+  );
+
+  sorted.forEach((match) => {
+    // Remakes are not counted
+    if (isRemake(match)) return;
+
+    const player = match.info.participants.find((p) => p.puuid === puuid);
+    if (!player) return;
+
+    // Bots are skipped - every bot's PUUID is "BOT", so they would all add
+    // up to one teammate
+    match.info.participants
+      .filter(
+        (p) =>
+          p.teamId === player.teamId && p.puuid !== puuid && p.puuid !== "BOT"
+      )
+      .forEach((teammate) => {
+        if (!totals[teammate.puuid]) {
+          totals[teammate.puuid] = {
+            gameName: teammate.riotIdGameName || teammate.summonerName,
+            tagLine: teammate.riotIdTagline || "",
+            games: 0,
+            wins: 0,
+            kills: 0,
+            deaths: 0,
+            assists: 0,
+            teammateKills: 0,
+            teammateDeaths: 0,
+            teammateAssists: 0,
+            lastPlayed: match.info.gameCreation,
+          };
+        }
+
+        const entry = totals[teammate.puuid];
+        entry.games++;
+        if (player.win) entry.wins++;
+        entry.kills += player.kills;
+        entry.deaths += player.deaths;
+        entry.assists += player.assists;
+        entry.teammateKills += teammate.kills;
+        entry.teammateDeaths += teammate.deaths;
+        entry.teammateAssists += teammate.assists;
+      });
+  });
+
+  return Object.entries(totals)
+    .filter(([, entry]) => entry.games >= minGames)
+    .map(([teammatePuuid, entry]) => ({
+      puuid: teammatePuuid,
+      gameName: entry.gameName,
+      tagLine: entry.tagLine,
+      games: entry.games,
+      wins: entry.wins,
+      winrate: ((entry.wins / entry.games) * 100).toFixed(1),
+      kda: kdaRatio(entry.kills, entry.deaths, entry.assists),
+      teammateKda: kdaRatio(
+        entry.teammateKills,
+        entry.teammateDeaths,
+        entry.teammateAssists
+      ),
+      lastPlayed: entry.lastPlayed,
+    }))
+    .sort((a, b) => b.games - a.games || b.wins - a.wins);
+}
@@ -0,0 +1,49 @@
+"use client";
+
+// Import React hooks for state management
+import { useEffect, useState } from "react";
+// Import the version used when Data Dragon cannot be reached
+import { FALLBACK_VERSION } from "./dataDragon";
+
+// Shared request so every component on the page waits for the same fetch
+let versionRequest: Promise<string> | null = null;
+
+// Ask the server for the current Data Dragon version (resolved and cached there)
+const loadLatestVersion = () => {
+  if (!versionRequest) {
+    versionRequest = fetch("/api/ddragon-version")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to fetch Data Dragon version");
+        return res.json();
+      })
+      .then((data) => data.latest as string)
+      .catch((error) => {
+        // Allow a later component to retry
+        versionRequest = null;
+        throw error;
+      });
+  }
+  return versionRequest;
+};
+
+// Hook returning the current Data Dragon version, or null while it loads
+export function useDataDragonVersion(): string | null {
+  const [version, setVersion] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLatestVersion()
+      .then((latest) => {
+        if (!cancelled) setVersion(latest);
+      })
+      .catch((error) => {
+        console.error("Error loading Data Dragon version:", error);
+        if (!cancelled) setVersion(FALLBACK_VERSION);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return version;
+}
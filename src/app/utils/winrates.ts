@@ -0,0 +1,230 @@
+// Champion winrate table - sampling matches and aggregating per champion
+// (server-side only)
+import { getMatchIdsByPuuid, getMatches, MatchDto } from "./riotApi";
+import { isRemake, kdaRatio } from "./matchStats";
+import type { Platform } from "./regions";
+import { getRole, ROLES } from "./roles";
+
+// match-v5 returns at most 100 IDs per call, so larger samples are paged
+const IDS_PAGE_SIZE = 100;
+
+// z-score for the 95% confidence interval used by the Wilson score
+const WILSON_Z = 1.96;
+
+// Options for the sample of matches the table is built from
+export interface WinrateSampleOptions {
+  count: number; // Most recent matches to include - Infinity for all of them
+  queues: number[]; // Queue IDs to include - empty for every queue
+  startTime?: number; // Epoch seconds, e.g. the start of the season
+}
+
+// CONFIG: start of the current ranked season (yyyy-mm-dd, UTC)
+// Riot does not publish season dates through the API, so set RANKED_SEASON_START
+// in .env.local when a new season begins; the default is the 2026 season
+const DEFAULT_SEASON_START = "2026-01-08";
+
+// Parse a yyyy-mm-dd date as UTC midnight in epoch seconds (NaN if invalid)
+const parseSeasonStart = (date: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date)
+    ? Math.floor(new Date(`${date}T00:00:00Z`).getTime() / 1000)
+    : NaN;
+
+// An invalid RANKED_SEASON_START falls back to the default rather than
+// sending a NaN startTime to Riot on every request
+const configuredSeasonStart = parseSeasonStart(
+  process.env.RANKED_SEASON_START || ""
+);
+const SEASON_START_TIME = Number.isNaN(configuredSeasonStart)
+  ? parseSeasonStart(DEFAULT_SEASON_START)
+  : configuredSeasonStart;
+
+// Start of the current ranked season in epoch seconds, for match-v5 startTime
+export function getSeasonStartTime(): number {
+  return SEASON_START_TIME;
+}
+
+// Sample used for the winrate table shown with a profile
+export const DEFAULT_WINRATE_SAMPLE: WinrateSampleOptions = {
+  count: 20,
+  queues: [420], // Ranked Solo/Duo
+};
+
+// Interface for one row of the champion winrate table
+export interface ChampionWinrate {
+  champion: string;
+  wins: number;
+  losses: number;
+  winrate: string;
+  totalGames: number;
+  // Wilson score lower bound of the winrate, as a percentage - the table is
+  // sorted by it so a 15-5 champion ranks above a 1-0 one
+  score: string;
+  avgDamage: number;
+  avgGold: number;
+  kda: string;
+  csPerMinute: string;
+  killParticipation: string; // Percentage of the team's kills
+}
+
+// Lower bound of the Wilson score interval for wins out of games
+export function wilsonLowerBound(wins: number, games: number): number {
+  if (games === 0) return 0;
+
+  const z2 = WILSON_Z * WILSON_Z;
+  const p = wins / games;
+  const centre = p + z2 / (2 * games);
+  const margin = WILSON_Z * Math.sqrt((p * (1 - p) + z2 / (4 * games)) / games);
+  return (centre - margin) / (1 + z2 / games);
+}
+
+// Get the player's most recent matches in the chosen queues
+// Each queue is paged separately (match-v5 filters one queue per call), then
+// the IDs are merged newest first - game IDs grow over time on a platform
+export async function getWinrateSample(
+  platform: Platform,
+  puuid: string,
+  { count, queues, startTime }: WinrateSampleOptions
+): Promise<MatchDto[]> {
+  const fetchQueueIds = async (queue?: number) => {
+    const ids: string[] = [];
+    while (ids.length < count) {
+      const pageSize = Math.min(IDS_PAGE_SIZE, count - ids.length);
+      const page = await getMatchIdsByPuuid(platform, puuid, {
+        queue,
+        startTime,
+        start: ids.length,
+        count: pageSize,
+      });
+      ids.push(...page);
+      if (page.length < pageSize) break;
+    }
+    return ids;
+  };
+
+  const perQueue = await Promise.all(
+    queues.length > 0 ? queues.map(fetchQueueIds) : [fetchQueueIds()]
+  );
+  const gameId = (matchId: string) => Number(matchId.split("_")[1]) || 0;
+  const matchIds = perQueue
+    .flat()
+    .sort((a, b) => gameId(b) - gameId(a))
+    .slice(0, count);
+
+  return getMatches(platform, matchIds);
+}
+
+// Calculate a player's winrate and per-game averages on each champion
+// Remakes are skipped unless includeRemakes is set
+export function getChampionWinrates(
+  matches: MatchDto[],
+  puuid: string,
+  includeRemakes = false
+): ChampionWinrate[] {
+  const championStats: {
+    [key: string]: {
+      wins: number;
+      losses: number;
+      totalDamage: number;
+      totalGold: number;
+      kills: number;
+      deaths: number;
+      assists: number;
+      cs: number;
+      minutes: number;
+      teamKills: number;
+    };
+  } = {};
+
+  matches.forEach((match) => {
+    const participant = match.info.participants.find((p) => p.puuid === puuid);
+    if (!participant) return;
+    if (!includeRemakes && isRemake(match)) return;
+
+    const championName = participant.championName;
+    if (!championStats[championName]) {
+      championStats[championName] = {
+        wins: 0,
+        losses: 0,
+        totalDamage: 0,
+        totalGold: 0,
+        kills: 0,
+        deaths: 0,
+        assists: 0,
+        cs: 0,
+        minutes: 0,
+        teamKills: 0,
+      };
+    }
+
+    const stats = championStats[championName];
+    if (participant.win) {
+      stats.wins++;
+    } else {
+      stats.losses++;
+    }
+
+    stats.totalDamage += participant.totalDamageDealtToChampions;
+    stats.totalGold += participant.goldEarned;
+    stats.kills += participant.kills;
+    stats.deaths += participant.deaths;
+    stats.assists += participant.assists;
+    stats.cs +=
+      participant.totalMinionsKilled + participant.neutralMinionsKilled;
+    stats.minutes += match.info.gameDuration / 60;
+    stats.teamKills += match.info.participants
+      .filter((p) => p.teamId === participant.teamId)
+      .reduce((total, p) => total + p.kills, 0);
+  });
+
+  // Convert to winrate format, most confidently winning champions first
+  return Object.entries(championStats)
+    .map(([champion, stats]) => {
+      const games = stats.wins + stats.losses;
+      return {
+        champion,
+        wins: stats.wins,
+        losses: stats.losses,
+        winrate: ((stats.wins / games) * 100).toFixed(1),
+        totalGames: games,
+        score: (wilsonLowerBound(stats.wins, games) * 100).toFixed(1),
+        avgDamage: Math.round(stats.totalDamage / games),
+        avgGold: Math.round(stats.totalGold / games),
+        kda: kdaRatio(stats.kills, stats.deaths, stats.assists),
+        csPerMinute:
+          stats.minutes > 0 ? (stats.cs / stats.minutes).toFixed(1) : "0.0",
+        killParticipation:
+          stats.teamKills > 0
+            ? (((stats.kills + stats.assists) / stats.teamKills) * 100).toFixed(
+                1
+              )
+            : "0.0",
+      };
+    })
+    .sort(
+      (a, b) => Number(b.score) - Number(a.score) || b.totalGames - a.totalGames
+    );
+}
+
+// The same table restricted to the player's games in each role
+// Roles without games are absent
+export function getChampionWinratesByRole(
+  matches: MatchDto[],
+  puuid: string,
+  includeRemakes = false
+): { [role: string]: ChampionWinrate[] } {
+  const byRole: { [role: string]: ChampionWinrate[] } = {};
+  for (const role of ROLES) {
+    const roleWinrates = getChampionWinrates(
+      matches.filter((match) => {
+        const participant = match.info.participants.find(
+          (p) => p.puuid === puuid
+        );
+        return participant && getRole(participant) === role;
+      }),
+      puuid,
+      includeRemakes
+    );
+    if (roleWinrates.length > 0) byRole[role] = roleWinrates;
+  }
+  return byRole;
+}